@@ -1,10 +1,14 @@
 const typescript = require('@rollup/plugin-typescript');
 const { nodeResolve } = require('@rollup/plugin-node-resolve');
 
-module.exports = {
-  input: 'src/index.ts',
+module.exports = [{
+  // Built together so the testing entry shares LiveI18nContext with the main entry
+  input: {
+    index: 'src/index.ts',
+    testing: 'src/testing.tsx'
+  },
   output: {
-    file: 'dist/index.js',
+    dir: 'dist',
     format: 'es',
     sourcemap: true
   },
@@ -21,4 +25,25 @@ module.exports = {
       declarationMap: false
     })
   ]
-};
\ No newline at end of file
+}, {
+  // String extraction CLI (Node only)
+  input: 'src/cli.ts',
+  output: {
+    file: 'dist/cli.js',
+    format: 'cjs',
+    banner: '#!/usr/bin/env node'
+  },
+  external: [
+    'fs',
+    'path',
+    'typescript'
+  ],
+  plugins: [
+    nodeResolve(),
+    typescript({
+      tsconfig: './tsconfig.json',
+      declaration: false,
+      declarationMap: false
+    })
+  ]
+}];
@@ -0,0 +1,345 @@
+import { LRUCache, DEFAULT_CACHE_SIZE } from './LRUCache';
+import { logger as defaultLogger, type Logger } from './logger';
+import type { CacheStats, CacheEntry, CacheEntryMeta, TranslationCacheAdapter } from './types';
+
+interface CacheRecord {
+  key: string;
+  value: string;
+  timestamp: number;
+  locale: string;
+  confidence?: number;
+  /** Overrides the cache TTL, expired rows are swept once past the cache's TTL */
+  ttl?: number;
+}
+
+const DB_NAME = 'livei18n';
+const DB_VERSION = 1;
+const STORE_NAME = 'translations';
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Run a callback when the browser is idle, so sweeps don't compete with rendering
+ */
+function scheduleIdle(callback: () => void): void {
+  if (typeof window !== 'undefined' && 'requestIdleCallback' in window) {
+    window.requestIdleCallback(callback);
+  } else {
+    setTimeout(callback, 0);
+  }
+}
+
+/**
+ * Hybrid cache that combines fast in-memory LRU cache with IndexedDB persistence
+ * Suited to large catalogs: no ~5MB quota, no JSON parsing on the main thread per read,
+ * and entries are indexed by locale and timestamp so expiry sweeps only touch expired rows
+ */
+export class IndexedDBCache implements TranslationCacheAdapter {
+  private memoryCache: LRUCache<string, string>;
+  private db: Promise<IDBDatabase | null>;
+  private ttl: number;
+  private staleWindow: number;
+  private lastSweep = 0;
+  private expired = 0;
+  private logger: Logger;
+
+  constructor(maxMemorySize: number = DEFAULT_CACHE_SIZE, ttlHours: number = 1, staleHours: number = 0, dbName: string = DB_NAME, logger: Logger = defaultLogger) {
+    this.logger = logger;
+    this.ttl = ttlHours * 60 * 60 * 1000; // Convert to milliseconds
+    this.staleWindow = staleHours * 60 * 60 * 1000;
+    this.memoryCache = new LRUCache(maxMemorySize, ttlHours, staleHours);
+    this.db = this.openDatabase(dbName);
+
+    // Sweep expired entries once the database is open
+    this.db.then(db => {
+      if (db) this.scheduleSweep();
+    });
+  }
+
+  private openDatabase(dbName: string): Promise<IDBDatabase | null> {
+    if (typeof indexedDB === 'undefined') {
+      this.logger.warn('LiveI18n: IndexedDB not available, falling back to memory-only cache');
+      return Promise.resolve(null);
+    }
+
+    return new Promise(resolve => {
+      try {
+        const request = indexedDB.open(dbName, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+          store.createIndex('locale', 'locale');
+          store.createIndex('timestamp', 'timestamp');
+        };
+        request.onsuccess = () => {
+          this.logger.log('LiveI18n: IndexedDB persistent cache initialized');
+          resolve(request.result);
+        };
+        request.onerror = () => {
+          this.logger.warn('LiveI18n: IndexedDB open failed, falling back to memory-only cache:', request.error);
+          resolve(null);
+        };
+      } catch (error) {
+        this.logger.warn('LiveI18n: IndexedDB access failed, falling back to memory-only cache');
+        resolve(null);
+      }
+    });
+  }
+
+  /**
+   * Run a transaction against the translations store
+   * Resolves to undefined when IndexedDB is unavailable
+   */
+  private async withStore<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => Promise<T>): Promise<T | undefined> {
+    const db = await this.db;
+    if (!db) return undefined;
+    return operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+  }
+
+  /**
+   * Memory hits are returned synchronously, misses are read from IndexedDB
+   */
+  get(key: string): string | undefined | Promise<string | undefined> {
+    const entry = this.getEntry(key);
+    const freshValue = (result: CacheEntry | undefined) => result && !result.stale ? result.value : undefined;
+    return entry instanceof Promise ? entry.then(freshValue) : freshValue(entry);
+  }
+
+  /**
+   * Get an entry including stale ones (past the TTL, inside the stale window)
+   */
+  getEntry(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined> {
+    // First, try memory cache (fastest) - LRUCache handles TTL internally
+    const memoryEntry = this.memoryCache.getEntry(key);
+    if (memoryEntry && !memoryEntry.stale) {
+      return memoryEntry;
+    }
+
+    return this.withStore('readonly', store => requestToPromise<CacheRecord | undefined>(store.get(key)))
+      .then((record): CacheEntry | undefined => {
+        if (!record) return memoryEntry;
+
+        // Expired rows are removed by the next sweep
+        const age = Date.now() - record.timestamp;
+        const ttl = record.ttl ?? this.ttl;
+        if (age > ttl + this.staleWindow) return undefined;
+
+        // Stale rows are served but not promoted, they'd look fresh in memory
+        if (age > ttl) {
+          return { value: record.value, stale: true, locale: record.locale, confidence: record.confidence, layer: 'persistent' };
+        }
+
+        // Put in memory cache for faster future access
+        this.memoryCache.set(key, record.value, { locale: record.locale, confidence: record.confidence, ttl: record.ttl });
+        return { value: record.value, stale: false, locale: record.locale, confidence: record.confidence, layer: 'persistent' };
+      })
+      .catch(error => {
+        this.logger.warn('LiveI18n: Error reading from IndexedDB cache:', error);
+        return memoryEntry;
+      });
+  }
+
+  async set(key: string, value: string, meta?: CacheEntryMeta): Promise<void> {
+    // Memory evictions don't remove persisted rows, those stay until they expire
+    this.memoryCache.set(key, value, meta);
+
+    const record: CacheRecord = {
+      key,
+      value,
+      timestamp: Date.now(),
+      locale: meta?.locale || '',
+      confidence: meta?.confidence,
+      ttl: meta?.ttl
+    };
+
+    try {
+      await this.withStore('readwrite', store => requestToPromise(store.put(record)));
+    } catch (error) {
+      this.logger.warn('LiveI18n: Error writing to IndexedDB cache:', error);
+    }
+
+    if (Date.now() - this.lastSweep > this.ttl + this.staleWindow) {
+      this.scheduleSweep();
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.memoryCache.delete(key);
+
+    try {
+      await this.withStore('readwrite', store => requestToPromise(store.delete(key)));
+    } catch (error) {
+      this.logger.warn('LiveI18n: Error removing key from IndexedDB cache:', error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.memoryCache.clear();
+
+    try {
+      await this.withStore('readwrite', store => requestToPromise(store.clear()));
+    } catch (error) {
+      this.logger.warn('LiveI18n: Error clearing IndexedDB cache:', error);
+    }
+  }
+
+  /**
+   * Get keys from both layers, persistent keys may include expired ones
+   */
+  async keys(): Promise<string[]> {
+    const keys = new Set(this.memoryCache.keys());
+
+    try {
+      const persistentKeys = await this.withStore('readonly', store => requestToPromise(store.getAllKeys()));
+      persistentKeys?.forEach(key => keys.add(String(key)));
+    } catch (error) {
+      this.logger.warn('LiveI18n: Error reading keys from IndexedDB cache:', error);
+    }
+
+    return Array.from(keys);
+  }
+
+  /**
+   * Memory stats, plus entry count, size and locales of the persisted rows
+   * Reads every row, so call it for diagnostics rather than on every render
+   */
+  async stats(): Promise<CacheStats> {
+    const memoryStats = this.memoryCache.stats();
+
+    try {
+      const persistent = await this.withStore('readonly', store => new Promise<CacheStats>((resolve, reject) => {
+        const locales: Record<string, number> = {};
+        let persistentSize = 0;
+        let persistentBytes = 0;
+
+        const request = store.openCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) {
+            // Memory expiries mirror persisted ones, count each entry once
+            resolve({ ...memoryStats, expired: this.expired, persistentSize, persistentBytes, locales });
+            return;
+          }
+
+          const record: CacheRecord = cursor.value;
+          persistentSize++;
+          // Approximate, strings are counted as UTF-16 plus the timestamp
+          persistentBytes += (record.key.length + record.value.length + record.locale.length) * 2 + 8;
+          if (record.locale) {
+            locales[record.locale] = (locales[record.locale] || 0) + 1;
+          }
+          cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+      }));
+
+      return persistent || memoryStats;
+    } catch (error) {
+      this.logger.warn('LiveI18n: Error reading IndexedDB cache stats:', error);
+      return memoryStats;
+    }
+  }
+
+  resetStats(): void {
+    this.memoryCache.resetStats();
+    this.expired = 0;
+  }
+
+  /**
+   * Count persisted entries, optionally for a single locale
+   */
+  async getPersistentCount(locale?: string): Promise<number> {
+    const count = await this.withStore('readonly', store =>
+      requestToPromise(locale === undefined ? store.count() : store.index('locale').count(locale))
+    );
+    return count || 0;
+  }
+
+  /**
+   * Preload the most recent entries from IndexedDB into memory
+   * Call this during app initialization for better performance
+   */
+  async preloadCache(maxItems: number = 500): Promise<void> {
+    try {
+      const loaded = await this.withStore('readonly', store => new Promise<number>((resolve, reject) => {
+        const cutoff = Date.now() - this.ttl;
+        let count = 0;
+
+        // Walk newest first, stopping at the first expired row
+        const request = store.index('timestamp').openCursor(IDBKeyRange.lowerBound(cutoff, true), 'prev');
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor || count >= maxItems) {
+            resolve(count);
+            return;
+          }
+
+          const record: CacheRecord = cursor.value;
+          // Rows with a shorter TTL may have expired already
+          if (record.ttl === undefined || Date.now() - record.timestamp <= record.ttl) {
+            this.memoryCache.set(record.key, record.value, { locale: record.locale, confidence: record.confidence, ttl: record.ttl });
+            count++;
+          }
+          cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+      }));
+
+      if (loaded) {
+        this.logger.log(`LiveI18n: Preloaded ${loaded} cache entries from IndexedDB`);
+      }
+    } catch (error) {
+      this.logger.warn('LiveI18n: Error preloading cache from IndexedDB:', error);
+    }
+  }
+
+  private scheduleSweep(): void {
+    this.lastSweep = Date.now();
+    scheduleIdle(() => {
+      this.clearExpiredItems().catch(error => {
+        this.logger.warn('LiveI18n: Error clearing expired IndexedDB cache items:', error);
+      });
+    });
+  }
+
+  /**
+   * Delete expired rows (past the stale window) using the timestamp index, without scanning live entries
+   */
+  private async clearExpiredItems(): Promise<void> {
+    const cleared = await this.withStore('readwrite', store => new Promise<number>((resolve, reject) => {
+      let count = 0;
+      const request = store.index('timestamp').openCursor(IDBKeyRange.upperBound(Date.now() - this.ttl - this.staleWindow));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve(count);
+          return;
+        }
+        cursor.delete();
+        count++;
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    }));
+
+    this.expired += cleared || 0;
+    if (cleared) {
+      this.logger.log(`LiveI18n: Cleared ${cleared} expired cache entries from IndexedDB`);
+    }
+  }
+
+  /**
+   * Get the cache TTL in milliseconds
+   */
+  getTtl(): number {
+    return this.ttl;
+  }
+}
@@ -1,6 +1,12 @@
+import type { CacheStats, CacheEntry, CacheEntryMeta } from './types';
+
 interface CacheItem<V> {
   value: V;
   timestamp: number;
+  locale?: string;
+  confidence?: number;
+  /** Overrides the cache TTL */
+  ttl?: number;
 }
 
 export const DEFAULT_CACHE_SIZE = 500;
@@ -9,35 +15,65 @@ export class LRUCache<K, V> {
   private cache: Map<K, CacheItem<V>>;
   private maxSize: number;
   private ttl: number;
+  private staleWindow: number;
+  private evictions = 0;
+  private expired = 0;
 
-  constructor(maxSize: number = DEFAULT_CACHE_SIZE, ttlHours: number = 1) {
+  constructor(maxSize: number = DEFAULT_CACHE_SIZE, ttlHours: number = 1, staleHours: number = 0) {
     this.cache = new Map();
     this.maxSize = maxSize;
     this.ttl = ttlHours * 60 * 60 * 1000; // Convert to milliseconds
+    this.staleWindow = staleHours * 60 * 60 * 1000;
   }
 
   get(key: K): V | undefined {
+    const entry = this.getEntry(key);
+    return entry && !entry.stale ? entry.value : undefined;
+  }
+
+  /**
+   * Get an entry including stale ones (past the TTL, inside the stale window)
+   */
+  getEntry(key: K): CacheEntry<V> | undefined {
     const item = this.cache.get(key);
     if (!item) return undefined;
 
-    // Check if item has expired
-    if (Date.now() - item.timestamp > this.ttl) {
+    // Check if item has expired beyond the stale window
+    const age = Date.now() - item.timestamp;
+    const ttl = item.ttl ?? this.ttl;
+    if (age > ttl + this.staleWindow) {
       this.cache.delete(key);
+      this.expired++;
       return undefined;
     }
 
     // Move to end (LRU behavior)
     this.cache.delete(key);
     this.cache.set(key, item);
-    return item.value;
+    return { value: item.value, stale: age > ttl, locale: item.locale, confidence: item.confidence, layer: 'memory' };
   }
 
-  set(key: K, value: V, onEvict?: (evictedKey: K) => void): void {
+  /**
+   * Add or replace an entry
+   * The eviction callback may also be passed as the third argument (legacy signature)
+   */
+  set(
+    key: K,
+    value: V,
+    meta?: CacheEntryMeta | ((evictedKey: K) => void),
+    onEvict?: (evictedKey: K) => void
+  ): void {
+    if (typeof meta === 'function') {
+      onEvict = meta;
+      meta = undefined;
+    }
+
     // Remove oldest item if cache is full
     if (this.cache.size >= this.maxSize && !this.cache.has(key)) {
       const firstKey = this.cache.keys().next().value;
       if (firstKey !== undefined) {
         this.cache.delete(firstKey);
+        this.evictions++;
         // Notify about eviction
         if (onEvict) {
           onEvict(firstKey);
@@ -47,14 +83,50 @@ export class LRUCache<K, V> {
 
     this.cache.set(key, {
       value,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      locale: meta?.locale,
+      confidence: meta?.confidence,
+      ttl: meta?.ttl
     });
   }
 
+  delete(key: K): void {
+    this.cache.delete(key);
+  }
+
   clear(): void {
     this.cache.clear();
   }
 
+  keys(): K[] {
+    return Array.from(this.cache.keys());
+  }
+
+  stats(): CacheStats {
+    const locales: Record<string, number> = {};
+    this.cache.forEach(item => {
+      if (item.locale) {
+        locales[item.locale] = (locales[item.locale] || 0) + 1;
+      }
+    });
+
+    return {
+      size: this.cache.size,
+      maxSize: this.maxSize,
+      evictions: this.evictions,
+      expired: this.expired,
+      locales
+    };
+  }
+
+  /**
+   * Reset the eviction and expiry counters
+   */
+  resetStats(): void {
+    this.evictions = 0;
+    this.expired = 0;
+  }
+
   size(): number {
     return this.cache.size;
   }
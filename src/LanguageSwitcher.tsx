@@ -0,0 +1,237 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useLanguageSwitcher, type LanguageOption, type UseLanguageSwitcherOptions } from './useLanguageSwitcher';
+
+export interface LanguageSwitcherProps extends UseLanguageSwitcherOptions {
+  /** Class name of the root element, the component renders without styles */
+  className?: string;
+  /** Accessible name of the button and the list (default: 'Language') */
+  label?: string;
+  /** Show a search box above the list (default: true when listing all languages) */
+  searchable?: boolean;
+  /** Placeholder and accessible name of the search box (default: 'Search languages') */
+  searchPlaceholder?: string;
+  /** Shown when the search matches no language (default: 'No matching languages') */
+  noResultsLabel?: string;
+  /** Render a language in the button and the list (default: flag and native name) */
+  renderLanguage?: (language: LanguageOption) => React.ReactNode;
+  /** Called with the chosen locale after switching */
+  onChange?: (locale: string) => void;
+}
+
+// A language is prefetched once it stays highlighted this long, not while arrowing past it
+const PREFETCH_DELAY_MS = 200;
+// Languages prefetched at most each time the list is opened
+const MAX_PREFETCHES_PER_OPEN = 3;
+
+// Ids only need to be unique on the page (useId needs React 18)
+let nextSwitcherId = 0;
+
+const defaultRenderLanguage = (language: LanguageOption): React.ReactNode => (
+  <>
+    {language.flag && <span aria-hidden="true">{language.flag} </span>}
+    {language.nativeName}
+  </>
+);
+
+/**
+ * Accessible language picker: a button opening a listbox of languages by native name,
+ * with an optional search box. Switches with updateDefaultLanguage, and prefetches the
+ * page's strings into a language that stays hovered or highlighted with the keyboard
+ *
+ * Unstyled: style it through className and the data attributes on its parts
+ * (data-livei18n-switcher-button, -popup, -search, -list, -option, -empty; options
+ * get data-active and data-current). Must be used within LiveI18nProvider
+ *
+ * @example
+ * ```tsx
+ * <LanguageSwitcher className="language-switcher" />
+ * <LanguageSwitcher all searchable label="Choose your language" />
+ * ```
+ */
+export const LanguageSwitcher: React.FC<LanguageSwitcherProps> = ({
+  all,
+  locales,
+  className,
+  label = 'Language',
+  searchable = !!all,
+  searchPlaceholder = 'Search languages',
+  noResultsLabel = 'No matching languages',
+  renderLanguage = defaultRenderLanguage,
+  onChange
+}) => {
+  const { languages, currentOption, isLoading, query, setQuery, selectLanguage, prefetchLanguage } = useLanguageSwitcher({ all, locales });
+
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+  const searchRef = useRef<HTMLInputElement>(null);
+  const prefetchedWhileOpen = useRef(new Set<string>());
+
+  const listIdRef = useRef<string>();
+  if (!listIdRef.current) listIdRef.current = `livei18n-switcher-${++nextSwitcherId}`;
+  const listId = listIdRef.current;
+  const optionId = (index: number) => `${listId}-option-${index}`;
+  const activeId = activeIndex >= 0 && activeIndex < languages.length ? optionId(activeIndex) : undefined;
+
+  const close = useCallback((restoreFocus: boolean) => {
+    setOpen(false);
+    setQuery('');
+    if (restoreFocus) buttonRef.current?.focus();
+  }, [setQuery]);
+
+  const choose = useCallback((locale: string) => {
+    selectLanguage(locale);
+    close(true);
+    onChange?.(locale);
+  }, [selectLanguage, close, onChange]);
+
+  // Start on the current language, and move focus into the popup
+  useEffect(() => {
+    if (!open) return;
+    prefetchedWhileOpen.current.clear();
+    setActiveIndex(Math.max(0, languages.findIndex(language => language.isCurrent)));
+    (searchRef.current || listRef.current)?.focus();
+  }, [open]);
+
+  // Typing a query highlights the first match
+  useEffect(() => {
+    if (open) setActiveIndex(0);
+  }, [query]);
+
+  // Keep the highlighted language in view
+  useEffect(() => {
+    if (open && activeIndex >= 0) document.getElementById(optionId(activeIndex))?.scrollIntoView?.({ block: 'nearest' });
+  }, [open, activeIndex]);
+
+  // A language that stays highlighted is likely to be chosen, prefetch it
+  useEffect(() => {
+    const language = languages[activeIndex];
+    const prefetched = prefetchedWhileOpen.current;
+    if (!open || !language || language.isCurrent || prefetched.has(language.locale) || prefetched.size >= MAX_PREFETCHES_PER_OPEN) return;
+
+    const timer = setTimeout(() => {
+      prefetched.add(language.locale);
+      prefetchLanguage(language.locale);
+    }, PREFETCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [open, activeIndex, languages, prefetchLanguage]);
+
+  // Clicking outside closes the popup
+  useEffect(() => {
+    if (!open) return;
+    const onMouseDown = (event: MouseEvent) => {
+      if (!rootRef.current?.contains(event.target as Node)) close(false);
+    };
+    document.addEventListener('mousedown', onMouseDown);
+    return () => document.removeEventListener('mousedown', onMouseDown);
+  }, [open, close]);
+
+  const onButtonKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      setOpen(true);
+    }
+  };
+
+  const onPopupKeyDown = (event: React.KeyboardEvent) => {
+    const last = languages.length - 1;
+    switch (event.key) {
+      case 'ArrowDown':
+        setActiveIndex(index => Math.min(index + 1, last));
+        break;
+      case 'ArrowUp':
+        setActiveIndex(index => Math.max(index - 1, 0));
+        break;
+      case 'Home':
+        setActiveIndex(0);
+        break;
+      case 'End':
+        setActiveIndex(last);
+        break;
+      case 'Enter':
+        if (languages[activeIndex]) choose(languages[activeIndex].locale);
+        break;
+      case 'Escape':
+        close(true);
+        break;
+      case 'Tab':
+        close(false);
+        return;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
+  return (
+    <div ref={rootRef} className={className} data-livei18n-switcher="">
+      <button
+        ref={buttonRef}
+        type="button"
+        aria-haspopup="listbox"
+        aria-expanded={open}
+        aria-controls={open ? listId : undefined}
+        aria-label={currentOption ? `${label}: ${currentOption.nativeName}` : label}
+        onClick={() => (open ? close(false) : setOpen(true))}
+        onKeyDown={onButtonKeyDown}
+        data-livei18n-switcher-button=""
+      >
+        {currentOption ? renderLanguage(currentOption) : label}
+      </button>
+      {open && (
+        <div onKeyDown={onPopupKeyDown} data-livei18n-switcher-popup="">
+          {searchable && (
+            <input
+              ref={searchRef}
+              type="search"
+              role="combobox"
+              aria-expanded="true"
+              aria-controls={listId}
+              aria-autocomplete="list"
+              aria-activedescendant={activeId}
+              aria-label={searchPlaceholder}
+              placeholder={searchPlaceholder}
+              value={query}
+              onChange={event => setQuery(event.target.value)}
+              data-livei18n-switcher-search=""
+            />
+          )}
+          <ul
+            ref={listRef}
+            id={listId}
+            role="listbox"
+            aria-label={label}
+            aria-busy={isLoading}
+            aria-activedescendant={searchable ? undefined : activeId}
+            tabIndex={searchable ? -1 : 0}
+            data-livei18n-switcher-list=""
+          >
+            {languages.map((language, index) => (
+              <li
+                key={language.locale}
+                id={optionId(index)}
+                role="option"
+                aria-selected={language.isCurrent}
+                lang={language.locale}
+                onMouseEnter={() => setActiveIndex(index)}
+                // Keep focus in the search box or list while clicking
+                onMouseDown={event => event.preventDefault()}
+                onClick={() => choose(language.locale)}
+                data-livei18n-switcher-option=""
+                data-active={index === activeIndex ? '' : undefined}
+                data-current={language.isCurrent ? '' : undefined}
+              >
+                {renderLanguage(language)}
+              </li>
+            ))}
+          </ul>
+          {!isLoading && languages.length === 0 && (
+            <div role="status" data-livei18n-switcher-empty="">{noResultsLabel}</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
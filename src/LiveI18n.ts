@@ -1,32 +1,154 @@
 import { LRUCache, DEFAULT_CACHE_SIZE } from './LRUCache';
 import { LocalStorageCache } from './LocalStorageCache';
+import { IndexedDBCache } from './IndexedDBCache';
+import { FetchTransport, TranslationError } from './transport';
 import { generateCacheKey } from './cacheKey';
+import { createLogger, type Logger } from './logger';
+import { protectPlaceholders, restorePlaceholders, formatMessage } from './messageFormat';
 import { DEFAULT_LOADING_CONFIG, type LoadingPattern } from './loadingIndicator';
-import type { LiveI18nConfig, LiveTextOptions, TranslationResponse, QueuedTranslation, BatchTranslationRequest, BatchTranslationResponse, SupportedLanguagesResponse } from './types';
+import { isPseudoLocale, pseudoLocalize, type PseudoLocale } from './pseudoLocale';
+import { getFallbackChain, type FallbackLocales } from './localeFallback';
+import { negotiateLocale, parseAcceptLanguage } from './localeNegotiation';
+import { createLanguageStore, type LanguageStore } from './languagePersistence';
+import { DEFAULT_BATCHING, splitIntoBatches } from './batching';
+import type { LiveI18nConfig, LiveTextOptions, TranslationResponse, TranslationTransport, QueuedTranslation, TranslationPriority, TranslateOptions, BatchTranslationRequest, BatchTranslationResponse, SupportedLanguagesResponse, DehydratedTranslations, TranslationCacheAdapter, CacheEntry, CacheEntryMeta, MaybePromise, TranslationBundle, TranslationBundleSource, DehydratedEntry, CacheStats, CacheLayer, LiveI18nCacheStats, TranslationDetails, TranslationCorrection, TranslationResult, ResolvedTranslation, LowConfidencePolicy, LiveI18nEvent, LiveI18nEventMap, LiveI18nEventHandler } from './types';
 
-export class TranslationError extends Error {
-  statusCode: number;
+export { TranslationError };
 
-  constructor(message: string, code: number) {
-    super(message);
-    this.statusCode = code;
+// Low priority translations wait this many flush windows for a larger batch
+const LOW_PRIORITY_FLUSH_FACTOR = 4;
+
+const PRIORITY_ORDER: Record<TranslationPriority, number> = { high: 0, normal: 1, low: 2 };
+
+// Below this confidence translations are reported, unless minConfidence sets another threshold
+const LOW_CONFIDENCE = 0.4;
+const DEFAULT_LOW_CONFIDENCE_TTL_HOURS = 0.25;
+
+// Recently used strings prefetchLanguage() translates ahead of a language switch
+const MAX_RECENT_TEXTS = 200;
+
+// Translations wait at most this long for locale negotiation before using the preferred locale
+const NEGOTIATION_TIMEOUT_MS = 2000;
+
+/**
+ * Error translations reject with when their AbortSignal fires
+ */
+function createAbortError(): Error {
+  if (typeof DOMException !== 'undefined') {
+    return new DOMException('Translation aborted', 'AbortError');
   }
+  const error = new Error('Translation aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Check whether a translation failed because it was aborted
+ */
+export function isAbortError(error: unknown): boolean {
+  return (error as Error)?.name === 'AbortError';
+}
+
+/**
+ * Check whether a translation failed because the API is unavailable (network error, timeout,
+ * missing response or 5xx), rather than because it rejected the request (4xx)
+ */
+function isUnavailableError(error: Error): boolean {
+  const statusCode = (error as Partial<TranslationError>).statusCode;
+  return statusCode === undefined || statusCode >= 500;
+}
+
+// Cache layers in the order a lookup checks them
+const CACHE_LAYERS: CacheLayer[] = ['memory', 'persistent', 'bundle'];
+
+/**
+ * Counters behind getCacheStats(), reset by resetStats()
+ */
+function createStatsCounters() {
+  return {
+    hits: { memory: 0, persistent: 0, bundle: 0 } as Record<CacheLayer, number>,
+    misses: { memory: 0, persistent: 0, bundle: 0 } as Record<CacheLayer, number>,
+    requests: 0,
+    failures: 0,
+    latencyMs: 0
+  };
+}
+
+function isPromise<T>(value: MaybePromise<T>): value is Promise<T> {
+  return typeof (value as Promise<T>)?.then === 'function';
 }
 
 export class LiveI18n {
-  private apiKey: string;
   private customerId: string;
-  private cache: LRUCache<string, string> | LocalStorageCache;
-  private endpoint: string;
+  private cache: TranslationCacheAdapter;
+  private transport: TranslationTransport;
   private defaultLanguage?: string;
+  private negotiatedLanguage?: string;
+  // Negotiation with the preferred locales in progress, and whether one has finished (or timed out)
+  private negotiation?: Promise<string>;
+  private negotiationSettled = false;
+  private allowedLocales?: string[];
+  private acceptLanguage?: string;
+  private languageStore?: LanguageStore;
   private debug: boolean;
+  private logger: Logger;
   private batchRequests: boolean;
+  private batching: typeof DEFAULT_BATCHING;
   private loadingPattern: LoadingPattern;
+  private suspense: boolean;
+  private minConfidence?: number;
+  private lowConfidenceThreshold: number;
+  private lowConfidencePolicy: LowConfidencePolicy;
+  private lowConfidenceFallbackLocale?: string;
+  private lowConfidenceTtl: number;
+  private fallbackLocales?: FallbackLocales;
+  private pseudoLocale?: PseudoLocale;
   private languageChangeListeners: Array<(language?: string) => void> = [];
+  private translationUpdateListeners: Array<(cacheKey: string) => void> = [];
+  private eventHandlers: { [E in LiveI18nEvent]?: Array<LiveI18nEventHandler<E>> } = {};
+  private statsCounters = createStatsCounters();
+
+  // Corrections submitted with applyLocally, they win over cached and fetched translations
+  private corrections = new Map<string, string>();
+
+  // Details of translations resolved while LiveI18nDevtools is mounted, by cache key
+  private inspected: Map<string, Partial<TranslationDetails>> | null = null;
+  private inspectors = 0;
+  private inspectorListeners: Array<(inspecting: boolean) => void> = [];
+  private maxCacheSize: number;
   
   // Batching-related properties
   private translationQueue: QueuedTranslation[] = [];
   private queueTimer: number | null = null;
+  private immediateFlushScheduled = false;
+  // Low priority translations wait on their own, longer timer to fill larger batches
+  private lowPriorityQueue: QueuedTranslation[] = [];
+  private lowPriorityTimer: number | null = null;
+  // Batches split off the queue, waiting for a free request slot
+  private pendingBatches: QueuedTranslation[][] = [];
+  private activeBatches = 0;
+
+  // Translations that haven't settled yet
+  private pendingTranslations = new Set<Promise<unknown>>();
+
+  // API requests in flight by cache key, shared by every caller of the same translation
+  // Callers are counted so a request can be dropped from the queue once they've all aborted
+  private inFlightTranslations = new Map<string, { promise: Promise<ResolvedTranslation>; callers: number; retryListeners: Array<(attempt: number) => void> }>();
+
+  // Stale cache keys currently being refreshed in the background
+  private revalidating = new Set<string>();
+
+  // Pre-translated bundles by locale, loaded on first use of the locale
+  private bundles: Record<string, TranslationBundleSource> = {};
+  private bundleLoads = new Map<string, Promise<void>>();
+  private bundleEntries = new Map<string, string>();
+
+  // Strings that follow the default language, least recently used first
+  private recentTexts = new Map<string, { text: string; options: LiveTextOptions }>();
+
+  // Suspense reads by cache key. Settled results are kept for translations that
+  // weren't cached (failures), so a resumed render doesn't suspend again
+  private suspenseReads = new Map<string, { promise: Promise<string>; result?: string }>();
   
   // Supported languages cache
   private supportedLanguagesCache: { [key: string]: { data: SupportedLanguagesResponse; timestamp: number } } = {};
@@ -36,35 +158,89 @@ export class LiveI18n {
   private cacheTimeout: number; // Cache TTL in milliseconds
 
   constructor(config: LiveI18nConfig) {
-    this.apiKey = config.apiKey;
     this.customerId = config.customerId;
-    this.endpoint = config.endpoint || 'https://api.livei18n.com';
-    this.defaultLanguage = config.defaultLanguage;
+    this.transport = config.transport || new FetchTransport({
+      apiKey: config.apiKey,
+      customerId: config.customerId,
+      endpoint: config.endpoint
+    });
     this.debug = config.debug || false;
+    this.logger = createLogger(config.silent);
+    this.allowedLocales = config.allowedLocales?.length ? config.allowedLocales : undefined;
+    this.languageStore = config.languagePersistence
+      ? createLanguageStore(config.languagePersistence, this.logger, () => this.getKnownLocales())
+      : undefined;
+    // A saved choice wins over the configured default, so it applies before the first translation
+    this.defaultLanguage = this.readSavedLanguage() || config.defaultLanguage;
+    this.acceptLanguage = config.acceptLanguage;
     this.batchRequests = config.batch_requests ?? true;
+    this.batching = {
+      maxItems: Math.max(1, config.batching?.maxItems ?? DEFAULT_BATCHING.maxItems),
+      flushMs: config.batching?.flushMs ?? DEFAULT_BATCHING.flushMs,
+      maxPayloadBytes: config.batching?.maxPayloadBytes ?? DEFAULT_BATCHING.maxPayloadBytes,
+      maxConcurrentBatches: Math.max(1, config.batching?.maxConcurrentBatches ?? DEFAULT_BATCHING.maxConcurrentBatches)
+    };
     this.loadingPattern = config.loading?.pattern || DEFAULT_LOADING_CONFIG.pattern;
+    this.suspense = config.suspense || false;
+    this.minConfidence = config.minConfidence;
+    this.lowConfidenceThreshold = config.minConfidence ?? LOW_CONFIDENCE;
+    this.fallbackLocales = config.fallbackLocales;
+    this.lowConfidencePolicy = config.lowConfidence?.policy || (config.fallbackLocales ? 'fallbackLocale' : 'source');
+    this.lowConfidenceFallbackLocale = config.lowConfidence?.fallbackLocale;
+    this.lowConfidenceTtl = (config.lowConfidence?.ttlHours ?? DEFAULT_LOW_CONFIDENCE_TTL_HOURS) * 60 * 60 * 1000;
+    this.pseudoLocale = config.pseudoLocale === true ? 'en-XA' : config.pseudoLocale || undefined;
     
     // Create appropriate cache based on configuration
     this.cache = this.createCache(config);
+    this.maxCacheSize = config.cache?.entrySize || DEFAULT_CACHE_SIZE;
     
     // Set cache timeout based on the actual cache instance TTL
-    this.cacheTimeout = this.cache.getTtl();
+    this.cacheTimeout = this.cache.getTtl?.() ?? (config.cache?.ttlHours || 1) * 60 * 60 * 1000;
   }
 
-  private createCache(config: LiveI18nConfig): LRUCache<string, string> | LocalStorageCache {
+  private createCache(config: LiveI18nConfig): TranslationCacheAdapter {
+    // Use a custom storage backend if one was provided
+    if (config.cache?.adapter) {
+      return config.cache.adapter;
+    }
+
     // Create cache based on configuration
     if (config.cache) {
+      const staleHours = config.cache.staleWhileRevalidate || 0;
+
+      if (config.cache.persistent !== false && config.cache.storage === 'indexedDB') {
+        // Use IndexedDB + memory cache for large catalogs
+        const indexedDBCache = new IndexedDBCache(
+          config.cache.entrySize || DEFAULT_CACHE_SIZE,
+          config.cache.ttlHours || 1,
+          staleHours,
+          undefined,
+          this.logger
+        );
+
+        // Preload cache if requested (default: true)
+        if (config.cache.preload !== false) {
+          indexedDBCache.preloadCache(config.cache.entrySize || DEFAULT_CACHE_SIZE).catch(error => {
+            this.logger.warn('LiveI18n: Failed to preload cache:', error);
+          });
+        }
+
+        return indexedDBCache;
+      }
+
       if (config.cache.persistent !== false) {
         // Use localStorage + memory cache by default
         const localStorageCache = new LocalStorageCache(
           config.cache.entrySize || DEFAULT_CACHE_SIZE,
-          config.cache.ttlHours || 1
+          config.cache.ttlHours || 1,
+          staleHours,
+          this.logger
         );
         
         // Preload cache if requested (default: true)
         if (config.cache.preload !== false) {
           localStorageCache.preloadCache().catch(error => {
-            console.warn('LiveI18n: Failed to preload cache:', error);
+            this.logger.warn('LiveI18n: Failed to preload cache:', error);
           });
         }
         
@@ -72,14 +248,41 @@ export class LiveI18n {
       }
       
       // Use memory-only cache with custom settings
-      return new LRUCache(
+      return new LRUCache<string, string>(
         config.cache.entrySize || DEFAULT_CACHE_SIZE, 
-        config.cache.ttlHours || 1
+        config.cache.ttlHours || 1,
+        staleHours
       );
     }
 
     // Default to persistent cache (no preload unless explicitly configured)
-    return new LocalStorageCache(DEFAULT_CACHE_SIZE, 1);
+    return new LocalStorageCache(DEFAULT_CACHE_SIZE, 1, 0, this.logger);
+  }
+
+  /**
+   * Write to the cache, reporting failures of async adapters instead of throwing
+   */
+  private writeCache(key: string, value: string, meta?: CacheEntryMeta): void {
+    // Refreshed translations don't replace a local correction
+    const correction = this.corrections.get(key);
+    if (correction !== undefined) {
+      value = correction;
+      meta = { locale: meta?.locale };
+    }
+
+    // Low confidence translations expire sooner, a better one may be available by then
+    if (meta?.confidence !== undefined && meta.confidence < this.lowConfidenceThreshold) {
+      meta = { ...meta, ttl: Math.min(this.lowConfidenceTtl, this.cacheTimeout) };
+    }
+
+    try {
+      const result = this.cache.set(key, value, meta);
+      if (isPromise(result)) {
+        result.catch(error => this.logger.warn('LiveI18n: Failed to write to cache:', error));
+      }
+    } catch (error) {
+      this.logger.warn('LiveI18n: Failed to write to cache:', error);
+    }
   }
 
   /**
@@ -90,97 +293,936 @@ export class LiveI18n {
   }
 
   /**
-   * Make a single translation request attempt
+   * Make a single translation request attempt
+   */
+  private async makeTranslationRequest(
+    text: string,
+    locale: string,
+    tone: string,
+    context: string,
+    cacheKey: string
+  ): Promise<TranslationResponse> {
+    return this.timeRequest('translate', 1, () => this.transport.translate({
+      text: text.substring(0, 5000),
+      locale,
+      tone,
+      context,
+      cache_key: cacheKey,
+    }));
+  }
+
+  /**
+   * Send an API request, emitting requestStart and requestEnd events around it
+   */
+  private async timeRequest<T>(type: 'translate' | 'translateBatch', count: number, send: () => Promise<T>): Promise<T> {
+    this.emit('requestStart', { type, count });
+    const startTime = Date.now();
+    try {
+      const result = await send();
+      const durationMs = this.recordRequest(startTime, true);
+      this.emit('requestEnd', { type, count, durationMs, ok: true });
+      return result;
+    } catch (error: any) {
+      const durationMs = this.recordRequest(startTime, false);
+      this.emit('requestEnd', { type, count, durationMs, ok: false, statusCode: error?.statusCode });
+      throw error;
+    }
+  }
+
+  /**
+   * Count a finished API call for getCacheStats(), returns its duration
+   */
+  private recordRequest(startTime: number, ok: boolean): number {
+    const durationMs = Date.now() - startTime;
+    this.statsCounters.requests++;
+    this.statsCounters.latencyMs += durationMs;
+    if (!ok) {
+      this.statsCounters.failures++;
+    }
+    return durationMs;
+  }
+
+  /**
+   * Count a lookup for getCacheStats(): a hit for the layer that answered it, and a miss for
+   * each layer checked before. Lookups nothing answered are a miss for every layer
+   */
+  private recordLookup(answeredBy?: CacheLayer): void {
+    for (const layer of CACHE_LAYERS) {
+      if (layer === answeredBy) {
+        this.statsCounters.hits[layer]++;
+        return;
+      }
+      this.statsCounters.misses[layer]++;
+    }
+  }
+
+  /**
+   * Count a cache hit for getCacheStats() and emit cacheHit
+   * Hits without a cache entry come from translation bundles
+   */
+  private recordCacheHit(cacheKey: string, locale: string, entry: CacheEntry | undefined, translated: string): void {
+    const layer = entry?.layer || (entry ? 'memory' : 'bundle');
+    const stale = !!entry?.stale;
+    this.recordLookup(layer);
+    this.recordDetails(cacheKey, { origin: layer, stale, translated });
+    this.emit('cacheHit', { cacheKey, locale, layer, stale });
+  }
+
+  /**
+   * Emit fallback for a translation that fell back to its source text
+   */
+  private recordFallback(cacheKey: string, locale: string, text: string, reason: 'error' | 'placeholders'): void {
+    this.recordDetails(cacheKey, { origin: 'fallback', translated: text });
+    this.emit('fallback', { cacheKey, locale, text, reason });
+  }
+
+  /**
+   * Remember how a translation was resolved, while the inspector is enabled
+   */
+  private recordDetails(cacheKey: string, details: Partial<TranslationDetails>): void {
+    if (!this.inspected) return;
+    this.inspected.set(cacheKey, { ...this.inspected.get(cacheKey), ...details });
+  }
+
+  /**
+   * Start recording translation details for LiveI18nDevtools
+   * LiveText renders a wrapping span with data attributes while the inspector is enabled
+   * Returns a function that disables it again
+   */
+  enableInspector(): () => void {
+    this.inspectors++;
+    if (!this.inspected) {
+      this.inspected = new Map();
+      this.inspectorListeners.forEach(listener => listener(true));
+    }
+
+    let disabled = false;
+    return () => {
+      if (disabled) return;
+      disabled = true;
+      this.inspectors--;
+      if (this.inspectors === 0) {
+        this.inspected = null;
+        this.inspectorListeners.forEach(listener => listener(false));
+      }
+    };
+  }
+
+  isInspecting(): boolean {
+    return this.inspected !== null;
+  }
+
+  /**
+   * Add a listener for the inspector being enabled or disabled
+   * Returns an unsubscribe function
+   */
+  addInspectorListener(listener: (inspecting: boolean) => void): () => void {
+    this.inspectorListeners.push(listener);
+
+    // Return unsubscribe function
+    return () => {
+      const index = this.inspectorListeners.indexOf(listener);
+      if (index > -1) {
+        this.inspectorListeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Describe how a translation was resolved
+   * Confidence is only known for translations fetched while the inspector was enabled,
+   * other translations report what the cache currently holds
+   */
+  getTranslationDetails(text: string, options?: LiveTextOptions): TranslationDetails {
+    const { locale, tone, context, cacheKey } = this.resolveRequest(text, options);
+    const recorded = this.inspected?.get(cacheKey);
+    if (recorded) {
+      return { text, locale, tone, context, cacheKey, ...recorded };
+    }
+
+    const entry = this.readCache(cacheKey);
+    const cached = isPromise(entry) ? undefined : entry;
+    const bundled = this.bundleEntries.get(cacheKey);
+    return {
+      text,
+      locale,
+      tone,
+      context,
+      cacheKey,
+      translated: cached?.value ?? bundled,
+      origin: cached ? cached.layer || 'memory' : bundled !== undefined ? 'bundle' : undefined,
+      stale: cached?.stale
+    };
+  }
+
+  /**
+   * Fetch a translation again, bypassing the cache and bundles, and replace the cached entry
+   * Rendered LiveText and useLiveText with this text update once it arrives
+   * Rejects if translating fails, the current translation (and local correction) is kept
+   */
+  async retranslate(text: string, options?: LiveTextOptions): Promise<string> {
+    if (!text || text.length > 5000) return text;
+
+    const { locale, tone, context, cacheKey } = this.resolveRequest(text, options);
+    this.debugLog(`Re-translating ${cacheKey}, bypassing the cache`);
+
+    // A local correction would override the new translation when it's cached
+    const correction = this.corrections.get(cacheKey);
+    this.corrections.delete(cacheKey);
+
+    // Requests skip the cache and bundles, and only successful ones replace the cached entry
+    const resolved = await this.requestTranslation(text, locale, tone, context, cacheKey, 'high');
+    if (resolved.error) {
+      if (correction !== undefined) this.corrections.set(cacheKey, correction);
+      throw resolved.error;
+    }
+    this.translationUpdateListeners.forEach(listener => listener(cacheKey));
+    const result = this.toResult(text, locale, resolved, options);
+    return (this.needsFallback(result, options) ? await this.translateFallbacks(text, result, options) : result).text;
+  }
+
+  /**
+   * Report a bad translation to the platform
+   * By default the suggestion is used right away: it's written to the cache, rendered
+   * LiveText and useLiveText with this text update, and refreshed translations don't
+   * replace it for the rest of the session. The local correction is kept if sending fails
+   *
+   * @example
+   * ```ts
+   * await i18n.submitCorrection({
+   *   text: 'Add to cart',
+   *   options: { tone: 'casual' },
+   *   suggested: 'Añadir a la cesta',
+   *   reason: 'Cesta is the term used in Spain'
+   * });
+   * ```
+   */
+  async submitCorrection(correction: TranslationCorrection): Promise<void> {
+    if (!this.transport.submitCorrection) {
+      throw new Error('LiveI18n: The configured transport does not support submitCorrection');
+    }
+
+    let cacheKey = correction.cacheKey;
+    let locale = correction.locale;
+    if (correction.text !== undefined) {
+      const resolved = this.resolveRequest(correction.text, {
+        ...correction.options,
+        language: correction.locale || correction.options?.language
+      });
+      cacheKey = resolved.cacheKey;
+      locale = resolved.locale;
+    }
+    if (!cacheKey) {
+      throw new Error('LiveI18n: submitCorrection needs a cacheKey or text');
+    }
+
+    // Read before applying the correction, so the platform sees what was shown
+    const entry = await this.readCache(cacheKey);
+    const translated = entry?.value ?? this.bundleEntries.get(cacheKey);
+    locale = locale || entry?.locale || this.getCurrentLocale();
+
+    if (correction.applyLocally !== false) {
+      this.corrections.set(cacheKey, correction.suggested);
+      this.writeCache(cacheKey, correction.suggested, { locale });
+      this.recordDetails(cacheKey, { origin: 'memory', stale: false, translated: correction.suggested, confidence: undefined });
+      this.translationUpdateListeners.forEach(listener => listener(cacheKey!));
+    }
+
+    this.debugLog(`Submitting correction for ${cacheKey}`);
+    await this.transport.submitCorrection({
+      cache_key: cacheKey,
+      locale,
+      text: correction.text,
+      translated,
+      suggested: correction.suggested,
+      reason: correction.reason
+    });
+  }
+
+  private debugLog(message: string, ...params: any) {
+      if (this.debug) {
+          console.log(`[debug] ${message}`, params);
+      }
+  }
+
+  /**
+   * Resolve the target locale, truncated tone/context and canonical cache key for a request
+   */
+  private resolveRequest(text: string, options?: LiveTextOptions): { locale: string; tone: string; context: string; cacheKey: string } {
+    const locale = this.getCurrentLocale(options?.language);
+    const tone = (options?.tone || '').substring(0, 50);
+    const context = (options?.context || '').substring(0, 500);
+
+    // Generate cache key using canonical algorithm
+    const cacheKey = generateCacheKey(
+      this.customerId,
+      text,
+      locale,
+      context,
+      tone
+    );
+
+    return { locale, tone, context, cacheKey };
+  }
+
+  /**
+   * Translate text using the LiveI18n API with retry logic
+   * Generates cache key and sends it to backend to eliminate drift
+   * Retries up to 5 times with exponential backoff, max 5 seconds total
+   * Pass options.signal to abort, the promise then rejects with an AbortError
+   */
+  translate(text: string, options?: TranslateOptions, onRetry?: (attempt: number) => void): Promise<string> {
+    return this.translateWithResult(text, options, onRetry).then(result => result.text);
+  }
+
+  /**
+   * Translate text like translate(), resolving to the translation with its locale,
+   * confidence, whether it's below minConfidence, and whether (and why) it fell back
+   * to the source text
+   */
+  translateWithResult(text: string, options?: TranslateOptions, onRetry?: (attempt: number) => void): Promise<TranslationResult> {
+    this.trackText(text, options);
+    const translation = this.performTranslation(text, options, onRetry);
+
+    // Track pending translations so server rendering can wait for them to settle
+    this.pendingTranslations.add(translation);
+    const settle = () => { this.pendingTranslations.delete(translation); };
+    translation.then(settle, settle);
+
+    return translation;
+  }
+
+  private async performTranslation(text: string, options?: TranslateOptions, onRetry?: (attempt: number) => void): Promise<TranslationResult> {
+    if (options?.signal?.aborted) throw createAbortError();
+
+    // Input validation
+    if (!text || text.length === 0) return this.untranslated(text, options);
+    if (text.length > 5000) {
+      this.logger.error('LiveI18n: Text exceeds 5000 character limit');
+      return this.untranslated(text, options, new Error('Text exceeds 5000 character limit'));
+    }
+
+    // Auto-detected locales may not be supported as preferred (gsw-CH), translate once negotiated.
+    // Translations already cached for the preferred locale don't need to wait
+    if (this.needsNegotiation(options)) {
+      const cached = await this.readCachedResult(text, options);
+      if (cached && !this.needsFallback(cached, options)) return cached;
+      await this.waitForNegotiation();
+      if (options?.signal?.aborted) throw createAbortError();
+    }
+
+    const result = await this.translateLocale(text, options, onRetry);
+    return this.needsFallback(result, options) ? this.translateFallbacks(text, result, options, onRetry) : result;
+  }
+
+  /**
+   * Whether the target locale is auto-detected and can't be matched yet: no negotiation has
+   * finished or timed out, and there are no allowedLocales or loaded supported languages to match against
+   */
+  private needsNegotiation(options?: LiveTextOptions): boolean {
+    if (this.pseudoLocale || options?.language || this.defaultLanguage || this.negotiatedLanguage) return false;
+    return !this.negotiationSettled && !this.allowedLocales && !this.supportedLanguagesCache['all'];
+  }
+
+  /**
+   * Wait for the shared negotiation, at most NEGOTIATION_TIMEOUT_MS. After a timeout translations
+   * use the preferred locale without waiting again, and switch once negotiation finishes
+   */
+  private async waitForNegotiation(): Promise<void> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<void>(resolve => {
+      timer = setTimeout(() => {
+        this.logger.warn(`LiveI18n: Locale negotiation took over ${NEGOTIATION_TIMEOUT_MS}ms, using the preferred locale meanwhile`);
+        this.negotiationSettled = true;
+        resolve();
+      }, NEGOTIATION_TIMEOUT_MS);
+    });
+
+    try {
+      await Promise.race([this.negotiateLanguage(), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Translate into a single locale, from the cache, a pre-translated bundle or the API
+   */
+  private async translateLocale(text: string, options?: TranslateOptions, onRetry?: (attempt: number) => void): Promise<TranslationResult> {
+    const { locale, tone, context, cacheKey } = this.resolveRequest(text, options);
+
+    this.debugLog(`Attempting to translate ${JSON.stringify({text, tone, context, locale})}`);
+    this.debugLog(`cache key for translation ${cacheKey}`);
+
+    // Make sure the locale's pre-translated bundle is available
+    await this.loadBundle(locale);
+
+    // Check local cache first, then pre-translated bundles
+    const entry = this.usableEntry(cacheKey, locale, await this.readCache(cacheKey), options);
+    if (options?.signal?.aborted) throw createAbortError();
+
+    const cached = entry?.value || this.bundleEntries.get(cacheKey);
+    if (cached) {
+        this.debugLog(`found translation in cache`);
+        this.recordCacheHit(cacheKey, locale, entry, cached);
+        if (entry?.stale) {
+          this.revalidate(text, locale, tone, context, cacheKey, entry.value);
+        }
+        return this.toResult(text, locale, { value: cached, confidence: entry?.confidence }, options);
+    }
+
+    this.recordLookup();
+    this.emit('cacheMiss', { cacheKey, locale });
+    const result = await this.requestTranslation(text, locale, tone, context, cacheKey, options?.priority || 'normal', onRetry, options?.signal);
+    return this.toResult(text, locale, result, options);
+  }
+
+  /**
+   * Whether to try the fallback chain: translating failed, or the translation is below
+   * minConfidence with the 'fallbackLocale' policy
+   */
+  private needsFallback(result: TranslationResult, options?: LiveTextOptions): boolean {
+    return !!result.error || (result.lowConfidence && this.getLowConfidencePolicy(options) === 'fallbackLocale');
+  }
+
+  /**
+   * Locales to try after a locale, lowConfidence.fallbackLocale is tried last for low confidence translations
+   */
+  private getFallbackLocales(locale: string, reason: 'error' | 'lowConfidence'): string[] {
+    const chain = this.fallbackLocales ? getFallbackChain(locale, this.fallbackLocales) : [];
+    const last = this.lowConfidenceFallbackLocale;
+    if (reason === 'lowConfidence' && last && last !== locale && !chain.includes(last)) {
+      chain.push(last);
+    }
+    return chain;
+  }
+
+  /**
+   * Try the fallback chain for a translation that failed or is below minConfidence
+   * Resolves to the first fallback translation that doesn't need a fallback itself,
+   * or the original result (the source text) once the chain runs out
+   */
+  private async translateFallbacks(
+    text: string,
+    result: TranslationResult,
+    options?: TranslateOptions,
+    onRetry?: (attempt: number) => void
+  ): Promise<TranslationResult> {
+    const reason = result.error ? 'error' : 'lowConfidence';
+    const chain = this.getFallbackLocales(result.locale, reason);
+
+    // The API is probably failing, so use a translation already cached for any of the
+    // locales before asking it again
+    if (reason === 'error') {
+      for (const locale of chain) {
+        const cached = await this.readCachedResult(text, { ...options, language: locale });
+        if (cached && !this.needsFallback(cached, options)) {
+          return this.useFallback(text, result, cached, reason);
+        }
+      }
+
+      // Each locale would go through its own retries while the API is down, show the source text instead
+      if (result.error && isUnavailableError(result.error)) {
+        this.debugLog(`Translation into ${result.locale} failed and the API is unavailable, no cached fallback`);
+        return result;
+      }
+    }
+
+    for (const locale of chain) {
+      this.debugLog(`Translation into ${result.locale} ${reason === 'error' ? 'failed' : 'is low confidence'}, trying ${locale}`);
+      const fallback = await this.translateLocale(text, { ...options, language: locale }, onRetry);
+      if (!this.needsFallback(fallback, options)) {
+        return this.useFallback(text, result, fallback, reason);
+      }
+    }
+
+    return result;
+  }
+
+  private useFallback(text: string, result: TranslationResult, fallback: TranslationResult, reason: 'error' | 'lowConfidence'): TranslationResult {
+    this.emit('localeFallback', { text, from: result.locale, locale: fallback.locale, reason });
+    return { ...fallback, fallbackFrom: result.locale };
+  }
+
+  private getLowConfidencePolicy(options?: LiveTextOptions): LowConfidencePolicy {
+    return options?.lowConfidencePolicy || this.lowConfidencePolicy;
+  }
+
+  /**
+   * Apply values and check the translation against minConfidence
+   * Below it, the 'source' and 'fallbackLocale' policies show the source text, 'flag' the translation.
+   * 'fallbackLocale' then tries the fallback chain, see translateFallbacks()
+   */
+  private toResult(text: string, locale: string, resolved: ResolvedTranslation, options?: LiveTextOptions): TranslationResult {
+    const minConfidence = options?.minConfidence ?? this.minConfidence;
+    const lowConfidence = minConfidence !== undefined && resolved.confidence !== undefined && resolved.confidence < minConfidence;
+    const flagged = lowConfidence && this.getLowConfidencePolicy(options) === 'flag';
+
+    return {
+      text: this.applyValues(lowConfidence && !flagged ? text : resolved.value, locale, options),
+      locale,
+      confidence: resolved.confidence,
+      lowConfidence,
+      flagged,
+      isFallback: !!resolved.error || (lowConfidence && !flagged),
+      error: resolved.error
+    };
+  }
+
+  /**
+   * Cached entries without a confidence score (hydrated from an older server, or persisted before
+   * scores were cached) can't be checked against minConfidence, so they're requested again instead
+   * of shown. Local corrections and pseudo-translations don't have a score to check
+   */
+  private usableEntry(cacheKey: string, locale: string, entry: CacheEntry | undefined, options?: LiveTextOptions): CacheEntry | undefined {
+    const minConfidence = options?.minConfidence ?? this.minConfidence;
+    if (!entry || minConfidence === undefined || entry.confidence !== undefined) return entry;
+    if (this.corrections.has(cacheKey) || isPseudoLocale(locale)) return entry;
+
+    this.debugLog(`Ignoring cached ${cacheKey} without a confidence score, minConfidence is set`);
+    return undefined;
+  }
+
+  private untranslated(text: string, options?: LiveTextOptions, error?: Error): TranslationResult {
+    const locale = this.getCurrentLocale(options?.language);
+    return { text: text && this.applyValues(text, locale, options), locale, lowConfidence: false, flagged: false, isFallback: !!error, error };
+  }
+
+  /**
+   * Fetch a translation from the API, batched or individually depending on configuration
+   * Resolves to the translated template, or the source text with the error if translation failed.
+   * Concurrent requests for the same cache key share one request (and one batch entry),
+   * retries are reported to every caller that's still waiting.
+   * An aborted caller rejects right away; once every caller has aborted, a request that
+   * is still queued is dropped before it's sent
+   */
+  private requestTranslation(
+    text: string,
+    locale: string,
+    tone: string,
+    context: string,
+    cacheKey: string,
+    priority: TranslationPriority,
+    onRetry?: (attempt: number) => void,
+    signal?: AbortSignal
+  ): Promise<ResolvedTranslation> {
+    if (signal?.aborted) return Promise.reject(createAbortError());
+
+    let inFlight = this.inFlightTranslations.get(cacheKey);
+    if (inFlight) {
+      this.debugLog(`cache miss, joining in-flight request for ${cacheKey}`);
+      this.promoteQueued(cacheKey, priority);
+    } else {
+      const retryListeners: Array<(attempt: number) => void> = [];
+      const notifyRetry = (attempt: number) => retryListeners.slice().forEach(listener => listener(attempt));
+      const created = { promise: this.sendTranslationRequest(text, locale, tone, context, cacheKey, priority, notifyRetry), callers: 0, retryListeners };
+      this.inFlightTranslations.set(cacheKey, created);
+      // A dropped request may already have been replaced by a new one
+      const settle = () => {
+        if (this.inFlightTranslations.get(cacheKey) === created) {
+          this.inFlightTranslations.delete(cacheKey);
+        }
+      };
+      created.promise.then(settle, settle);
+      inFlight = created;
+    }
+
+    const entry = inFlight;
+    entry.callers++;
+    if (onRetry) entry.retryListeners.push(onRetry);
+    if (!signal) return entry.promise;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        entry.callers--;
+        if (onRetry) entry.retryListeners.splice(entry.retryListeners.indexOf(onRetry), 1);
+        if (entry.callers === 0) {
+          this.dropQueued(cacheKey);
+        }
+        reject(createAbortError());
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      entry.promise.then(
+        result => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+        error => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  private sendTranslationRequest(
+    text: string,
+    locale: string,
+    tone: string,
+    context: string,
+    cacheKey: string,
+    priority: TranslationPriority,
+    onRetry?: (attempt: number) => void
+  ): Promise<ResolvedTranslation> {
+    // Pseudo-locales are generated locally and cached like API translations
+    if (isPseudoLocale(locale)) {
+      this.debugLog(`cache miss, pseudo-localizing for ${locale}`);
+      const translated = pseudoLocalize(text, locale);
+      this.writeCache(cacheKey, translated, { locale });
+      this.recordDetails(cacheKey, { origin: 'pseudo', stale: false, translated, confidence: undefined });
+      return Promise.resolve({ value: translated });
+    }
+
+    // Placeholders are swapped for positional tokens so they survive translation
+    const requestText = protectPlaceholders(text).text;
+
+    // Branch based on configuration
+    if (this.batchRequests) {
+      // NEW: Batch mode - add to queue
+      this.debugLog('cache miss, adding to batch queue');
+      return this.addToQueue({
+        text: requestText,
+        sourceText: text,
+        locale,
+        tone,
+        context,
+        cacheKey,
+        priority,
+        resolve: () => {}, // Will be set in addToQueue
+        reject: () => {}   // Will be set in addToQueue
+      });
+    } else {
+      // EXISTING: Individual mode - direct API call
+      this.debugLog('cache miss, making individual translation request');
+      return this.makeIndividualTranslation(requestText, text, locale, tone, context, cacheKey, onRetry);
+    }
+  }
+
+  /**
+   * Read a cache entry, including stale entries when the adapter supports them
+   */
+  private readCache(cacheKey: string): MaybePromise<CacheEntry | undefined> {
+    const correction = this.corrections.get(cacheKey);
+    if (correction !== undefined) {
+      return { value: correction, stale: false, layer: 'memory' };
+    }
+
+    if (this.cache.getEntry) {
+      return this.cache.getEntry(cacheKey);
+    }
+
+    const toEntry = (value: string | undefined) => value ? { value, stale: false } : undefined;
+    const value = this.cache.get(cacheKey);
+    return isPromise(value) ? value.then(toEntry) : toEntry(value);
+  }
+
+  /**
+   * Refresh a stale cache entry in the background through the batch queue
+   * Translation update listeners are notified if the refreshed translation differs
+   */
+  private revalidate(text: string, locale: string, tone: string, context: string, cacheKey: string, staleValue: string): void {
+    if (this.revalidating.has(cacheKey)) return;
+    this.revalidating.add(cacheKey);
+    this.debugLog(`Revalidating stale cache entry ${cacheKey}`);
+
+    this.requestTranslation(text, locale, tone, context, cacheKey, 'low')
+      .then(async () => {
+        // Failed refreshes leave the stale entry in place, only fresh entries are announced
+        const entry = await this.readCache(cacheKey);
+        if (entry && !entry.stale && entry.value !== staleValue) {
+          this.translationUpdateListeners.forEach(listener => listener(cacheKey));
+        }
+      })
+      .catch(error => {
+        this.debugLog('Revalidation failed:', error);
+      })
+      .then(() => {
+        this.revalidating.delete(cacheKey);
+      });
+  }
+
+  /**
+   * Look up a translation synchronously without making any requests
+   * Returns undefined on a cache miss. Used for the first render so server output
+   * and hydrated client output match
+   */
+  getCachedTranslation(text: string, options?: LiveTextOptions): string | undefined {
+    return this.getCachedResult(text, options)?.text;
+  }
+
+  /**
+   * Look up a translation synchronously like getCachedTranslation(), with its locale,
+   * confidence and whether it's below minConfidence
+   */
+  getCachedResult(text: string, options?: LiveTextOptions): TranslationResult | undefined {
+    return this.lookupCachedResult(text, options, true);
+  }
+
+  /**
+   * Read a translation synchronously like getCachedResult(), without counting it in getCacheStats()
+   * For re-reading a translation that was already looked up, e.g. on re-render or after a refresh
+   */
+  peekCachedResult(text: string, options?: LiveTextOptions): TranslationResult | undefined {
+    return this.lookupCachedResult(text, options, false);
+  }
+
+  private lookupCachedResult(text: string, options: LiveTextOptions | undefined, countHit: boolean): TranslationResult | undefined {
+    if (!text) return this.untranslated(text, options);
+    if (text.length > 5000) return this.untranslated(text, options, new Error('Text exceeds 5000 character limit'));
+    this.trackText(text, options);
+
+    const result = this.getCachedLocaleResult(text, options, countHit);
+    if (!result || !this.needsFallback(result, options)) return result;
+
+    // Failures aren't cached, so this is a low confidence translation. Use a cached
+    // fallback, or leave it to translate() when the next one in the chain isn't cached
+    for (const locale of this.getFallbackLocales(result.locale, 'lowConfidence')) {
+      const fallback = this.getCachedLocaleResult(text, { ...options, language: locale }, countHit);
+      if (!fallback) return undefined;
+      if (!this.needsFallback(fallback, options)) {
+        return this.useFallback(text, result, fallback, 'lowConfidence');
+      }
+    }
+    return result;
+  }
+
+  private getCachedLocaleResult(text: string, options: LiveTextOptions | undefined, countHit: boolean): TranslationResult | undefined {
+    const { locale, tone, context, cacheKey } = this.resolveRequest(text, options);
+
+    // Inline bundles are applied synchronously, lazy ones start loading
+    this.loadBundle(locale);
+
+    // Async adapters can't answer synchronously, only bundles can
+    const entry = this.readCache(cacheKey);
+    const cached = isPromise(entry) ? undefined : this.usableEntry(cacheKey, locale, entry, options);
+    const result = cached?.value || this.bundleEntries.get(cacheKey);
+
+    if (result && countHit) {
+      this.recordCacheHit(cacheKey, locale, cached, result);
+    }
+    if (cached?.stale) {
+      this.revalidate(text, locale, tone, context, cacheKey, cached.value);
+    }
+    return result ? this.toResult(text, locale, { value: result, confidence: cached?.confidence }, options) : undefined;
+  }
+
+  /**
+   * Read a translation from the cache or the locale's bundle, without requesting it
+   */
+  private async readCachedResult(text: string, options?: LiveTextOptions): Promise<TranslationResult | undefined> {
+    const { locale, cacheKey } = this.resolveRequest(text, options);
+    await this.loadBundle(locale);
+    const entry = this.usableEntry(cacheKey, locale, await this.readCache(cacheKey), options);
+    const cached = entry?.value || this.bundleEntries.get(cacheKey);
+    if (!cached) return undefined;
+
+    this.recordCacheHit(cacheKey, locale, entry, cached);
+    return this.toResult(text, locale, { value: cached, confidence: entry?.confidence }, options);
+  }
+
+  /**
+   * Get the cache key a translation is stored under
+   */
+  getCacheKey(text: string, options?: LiveTextOptions): string {
+    return this.resolveRequest(text, options).cacheKey;
+  }
+
+  /**
+   * Read a translation for React Suspense
+   * Returns the cached translation, or throws a promise that resolves once it's available.
+   * Reads made during the same render are queued together, so a suspended screen
+   * becomes a single batch request
+   */
+  readTranslation(text: string, options?: LiveTextOptions): string {
+    // Runs on every render, the mounting component already counted the lookup
+    const cached = this.peekCachedResult(text, options)?.text;
+    if (cached !== undefined) return cached;
+
+    const { locale, cacheKey } = this.resolveRequest(text, options);
+    let read = this.suspenseReads.get(cacheKey);
+
+    if (!read) {
+      // Translate the template once, values are applied per read
+      const templateOptions = { ...options, values: undefined };
+      const entry: { promise: Promise<string>; result?: string } = {
+        promise: this.translate(text, templateOptions).then(
+          result => {
+            entry.result = result;
+            if (this.peekCachedResult(text, templateOptions) !== undefined) {
+              this.suspenseReads.delete(cacheKey);
+            }
+            return result;
+          },
+          () => {
+            entry.result = text;
+            return text;
+          }
+        )
+      };
+      this.suspenseReads.set(cacheKey, entry);
+      read = entry;
+    }
+
+    if (read.result !== undefined) {
+      return this.applyValues(read.result, locale, options);
+    }
+    throw read.promise;
+  }
+
+  /**
+   * Check whether LiveText and useLiveText should suspend while translating
+   */
+  isSuspenseEnabled(): boolean {
+    return this.suspense;
+  }
+
+  /**
+   * Start translating text in the background without waiting for the result
+   * The translation lands in the cache for later renders. Prefetches are low priority
+   * unless options say otherwise
+   */
+  prefetch(text: string, options?: LiveTextOptions): void {
+    this.translate(text, { ...options, priority: options?.priority || 'low' }).catch(error => {
+      this.debugLog('Prefetch failed:', error);
+    });
+  }
+
+  /**
+   * Prefetch the strings used so far into another language, e.g. when the user points at it
+   * in a language switcher, so they render right away once it's chosen
+   * Covers the most recently used strings that follow the default language
+   */
+  prefetchLanguage(language: string): void {
+    this.debugLog(`Prefetching ${this.recentTexts.size} strings into ${language}`);
+    this.recentTexts.forEach(({ text, options }) => this.prefetch(text, { ...options, language }));
+  }
+
+  /**
+   * Remember a string for prefetchLanguage(), strings with a fixed language don't change with it
+   */
+  private trackText(text: string, options?: LiveTextOptions): void {
+    if (!text || options?.language) return;
+
+    // Tone and context are all that's needed for the cache key, values are applied locally
+    const key = JSON.stringify([text, options?.tone || '', options?.context || '']);
+    this.recentTexts.delete(key);
+    this.recentTexts.set(key, { text, options: { tone: options?.tone, context: options?.context } });
+
+    if (this.recentTexts.size > MAX_RECENT_TEXTS) {
+      this.recentTexts.delete(this.recentTexts.keys().next().value as string);
+    }
+  }
+
+  /**
+   * Check whether any translations are still in flight
+   */
+  hasPendingTranslations(): boolean {
+    return this.pendingTranslations.size > 0;
+  }
+
+  /**
+   * Resolve once every pending translation has settled
+   * Translations started while waiting are awaited as well
+   */
+  async waitForPendingTranslations(): Promise<void> {
+    while (this.pendingTranslations.size > 0) {
+      await Promise.all(Array.from(this.pendingTranslations, translation => translation.catch(() => undefined)));
+    }
+  }
+
+  /**
+   * Serialize cached translations so a client can start from the same state
+   * Pass the result to LiveI18nProvider's dehydratedState prop
    */
-  private async makeTranslationRequest(
-    text: string,
-    locale: string,
-    tone: string,
-    context: string,
-    cacheKey: string
-  ): Promise<TranslationResponse> {
-    const response = await fetch(`${this.endpoint}/api/v1/translate`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-API-Key': this.apiKey,
-        'X-Customer-ID': this.customerId,
-      },
-      body: JSON.stringify({
-        text: text.substring(0, 5000),
-        locale,
-        tone,
-        context,
-        cache_key: cacheKey,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new TranslationError(`API error: ${response.status} ${response.statusText}. ${response.json()}`, response.status);
+  async dehydrate(): Promise<DehydratedTranslations> {
+    const entries: Record<string, DehydratedEntry> = {};
+    for (const key of await this.cache.keys()) {
+      const entry = await this.readCache(key);
+      if (entry && !entry.stale) {
+        entries[key] = { value: entry.value, locale: entry.locale, confidence: entry.confidence };
+      }
     }
 
-    return await response.json();
+    return {
+      defaultLanguage: this.defaultLanguage,
+      negotiatedLanguage: this.negotiatedLanguage,
+      entries
+    };
   }
 
-  private debugLog(message: string, ...params: any) {
-      if (this.debug) {
-          console.log(`[debug] ${message}`, params);
+  /**
+   * Seed the cache with translations serialized by dehydrate()
+   * The server's default and negotiated languages are adopted unless set on the client already
+   */
+  hydrate(state: DehydratedTranslations): void {
+    if (state.defaultLanguage && !this.defaultLanguage) {
+      this.defaultLanguage = state.defaultLanguage;
+    }
+    if (state.negotiatedLanguage && !this.negotiatedLanguage) {
+      this.negotiatedLanguage = state.negotiatedLanguage;
+    }
+
+    const entries = Object.keys(state.entries || {});
+    entries.forEach(key => {
+      const entry = state.entries[key];
+      if (typeof entry === 'string') {
+        this.writeCache(key, entry);
+      } else {
+        this.writeCache(key, entry.value, { locale: entry.locale, confidence: entry.confidence });
       }
+    });
+    this.debugLog(`Hydrated ${entries.length} cached translations`);
   }
 
   /**
-   * Translate text using the LiveI18n API with retry logic
-   * Generates cache key and sends it to backend to eliminate drift
-   * Retries up to 5 times with exponential backoff, max 5 seconds total
+   * Register pre-translated bundles by locale
+   * Bundles are loaded the first time their locale is used
    */
-  async translate(text: string, options?: LiveTextOptions, onRetry?: (attempt: number) => void): Promise<string> {
-    // Input validation
-    if (!text || text.length === 0) return text;
-    if (text.length > 5000) {
-      console.error('LiveI18n: Text exceeds 5000 character limit');
-      return text;
-    }
+  addBundles(bundles: Record<string, TranslationBundleSource>): void {
+    Object.assign(this.bundles, bundles);
+  }
 
-    const locale = options?.language || this.defaultLanguage || this.detectLocale();
-    const tone = (options?.tone || '').substring(0, 50);
-    const context = (options?.context || '').substring(0, 500);
+  /**
+   * Load the bundle registered for a locale, if any
+   * Inline bundles are applied synchronously, before the returned promise resolves
+   */
+  loadBundle(locale: string): Promise<void> {
+    const existing = this.bundleLoads.get(locale);
+    if (existing) return existing;
 
-    this.debugLog(`Attempting to translate ${JSON.stringify({text, tone, context, locale})}`);
+    const source = this.bundles[locale];
+    if (!source) return Promise.resolve();
 
-    // Generate cache key using canonical algorithm
-    const cacheKey = generateCacheKey(
-      this.customerId,
-      text,
-      locale,
-      context,
-      tone
-    );
+    let load: Promise<void>;
+    if (typeof source === 'function') {
+      load = source()
+        .then(loaded => this.applyBundle('default' in loaded ? loaded.default : loaded))
+        .catch(error => {
+          this.logger.warn(`LiveI18n: Failed to load translation bundle for ${locale}:`, error);
+        });
+    } else {
+      this.applyBundle(source);
+      load = Promise.resolve();
+    }
 
-    this.debugLog(`cache key for translation ${cacheKey}`);
+    this.bundleLoads.set(locale, load);
+    return load;
+  }
 
-    // Check local cache first
-    const cached = this.cache.get(cacheKey);
-    if (cached) {
-        this.debugLog(`found translation in cache`);
-        return cached;
-    }
+  private applyBundle(bundle: TranslationBundle): void {
+    const keys = Object.keys(bundle.entries || {});
+    keys.forEach(key => this.bundleEntries.set(key, bundle.entries[key]));
+    this.debugLog(`Loaded ${keys.length} bundled translations for ${bundle.locale}`);
+  }
 
-    // Branch based on configuration
-    if (this.batchRequests) {
-      // NEW: Batch mode - add to queue
-      this.debugLog('cache miss, adding to batch queue');
-      return this.addToQueue({
-        text,
-        options,
-        cacheKey,
-        resolve: () => {}, // Will be set in addToQueue
-        reject: () => {}   // Will be set in addToQueue
-      });
-    } else {
-      // EXISTING: Individual mode - direct API call
-      this.debugLog('cache miss, making individual translation request');
-      return this.makeIndividualTranslation(text, locale, tone, context, cacheKey, onRetry);
-    }
+  /**
+   * Substitute placeholder values into a translated template
+   * Templates are cached without values so each locale is translated only once,
+   * plural and select arguments are resolved with the target locale's rules
+   */
+  private applyValues(template: string, locale: string, options?: LiveTextOptions): string {
+    return options?.values ? formatMessage(template, options.values, locale, this.logger) : template;
   }
 
   /**
@@ -188,21 +1230,23 @@ export class LiveI18n {
    */
   private async makeIndividualTranslation(
     text: string, 
+    sourceText: string,
     locale: string, 
     tone: string, 
     context: string, 
     cacheKey: string,
     onRetry?: (attempt: number) => void
-  ): Promise<string> {
+  ): Promise<ResolvedTranslation> {
     const maxRetries = 5;
     const baseDelay = 100; // Start with 100ms
     const maxTotalTime = 5000; // 5 seconds total limit
     const startTime = Date.now();
+    let lastError: Error | undefined;
 
     for (let attempt = 0; attempt < maxRetries; attempt++) {
       // Check if we've exceeded the total time limit
       if (Date.now() - startTime >= maxTotalTime) {
-        console.warn(`LiveI18n: Translation timeout after ${maxTotalTime}ms`);
+        this.logger.warn(`LiveI18n: Translation timeout after ${maxTotalTime}ms`);
         break;
       }
 
@@ -212,38 +1256,51 @@ export class LiveI18n {
         }
 
         const result = await this.makeTranslationRequest(text, locale, tone, context, cacheKey);
-        
+        this.recordDetails(cacheKey, { origin: 'api', stale: false, confidence: result.confidence });
+        let mismatch = false;
+        const translated = restorePlaceholders(result.translated, sourceText, () => { mismatch = true; }, this.logger);
+        if (mismatch) {
+          // Not cached, so the next render asks again
+          this.recordFallback(cacheKey, locale, sourceText, 'placeholders');
+          return { value: sourceText, error: new Error('Translation placeholders do not match the source message') };
+        }
+
         // Cache the result locally
-        this.cache.set(cacheKey, result.translated);
+        this.writeCache(cacheKey, translated, { locale, confidence: result.confidence });
+        this.recordDetails(cacheKey, { translated });
 
         // Log warnings for low confidence translations
-        if (result.confidence < 0.4) {
-          console.warn(`LiveI18n: Low confidence translation (${result.confidence}):`, {
+        if (result.confidence < this.lowConfidenceThreshold) {
+          this.logger.warn(`LiveI18n: Low confidence translation (${result.confidence}):`, {
             original: text,
             translated: result.translated,
             locale
           });
+          this.emit('lowConfidence', { cacheKey, locale, confidence: result.confidence, text: sourceText, translated });
         }
 
         // Log successful retry if not first attempt
         if (attempt > 0) {
-          console.log(`LiveI18n: Translation succeeded on attempt ${attempt + 1}`);
+          this.logger.log(`LiveI18n: Translation succeeded on attempt ${attempt + 1}`);
         }
 
-        return result.translated;
+        return { value: translated, confidence: result.confidence };
       } catch (error: any) {
         const isLastAttempt = attempt === maxRetries - 1;
         const timeElapsed = Date.now() - startTime;
+        lastError = error;
         
         if (error?.statusCode && error?.statusCode === 400) {
           // don't retry on 400 errors
-          console.error(`LiveI18n: Translation failed with status code: 400. Will not retry:`, error);
-          return text; // Fallback to original text
+          this.logger.error(`LiveI18n: Translation failed with status code: 400. Will not retry:`, error);
+          this.recordFallback(cacheKey, locale, sourceText, 'error');
+          return { value: sourceText, error }; // Fallback to original text
         }
 
         if (isLastAttempt || timeElapsed >= maxTotalTime) {
-          console.error(`LiveI18n: Translation failed after ${attempt + 1} attempts:`, error);
-          return text; // Fallback to original text
+          this.logger.error(`LiveI18n: Translation failed after ${attempt + 1} attempts:`, error);
+          this.recordFallback(cacheKey, locale, sourceText, 'error');
+          return { value: sourceText, error }; // Fallback to original text
         }
 
         // Calculate delay with exponential backoff: 100ms, 200ms, 400ms, 800ms, 1600ms
@@ -254,87 +1311,227 @@ export class LiveI18n {
         const actualDelay = Math.min(delay, remainingTime - 100); // Leave 100ms for the request
 
         if (actualDelay > 0) {
-          console.warn(`LiveI18n: Attempt ${attempt + 1} failed, retrying in ${actualDelay}ms:`, error);
+          this.logger.warn(`LiveI18n: Attempt ${attempt + 1} failed, retrying in ${actualDelay}ms:`, error);
+          this.emit('retry', { type: 'translate', attempt: attempt + 1, delayMs: actualDelay, error });
           await this.sleep(actualDelay);
         }
       }
     }
 
-    // Should not reach here, but fallback just in case
-    return text;
+    // Reached when the time limit runs out between attempts
+    this.recordFallback(cacheKey, locale, sourceText, 'error');
+    return { value: sourceText, error: lastError || new Error(`Translation timed out after ${maxTotalTime}ms`) };
   }
 
   /**
    * Add translation request to batch queue
    */
-  private addToQueue(queuedTranslation: QueuedTranslation): Promise<string> {
+  private addToQueue(queuedTranslation: QueuedTranslation): Promise<ResolvedTranslation> {
     return new Promise((resolve, reject) => {
       // Set the resolve and reject functions
       queuedTranslation.resolve = resolve;
       queuedTranslation.reject = reject;
       
-      // Add to queue
-      this.translationQueue.push(queuedTranslation);
+      // Add to the priority's queue
+      const lowPriority = queuedTranslation.priority === 'low';
+      const queue = lowPriority ? this.lowPriorityQueue : this.translationQueue;
+      queue.push(queuedTranslation);
       
-      this.debugLog(`Added to queue, queue size: ${this.translationQueue.length}`);
+      this.debugLog(`Added to queue (${queuedTranslation.priority} priority), queue size: ${queue.length}`);
       
-      // Auto-flush conditions: 10 requests or start timer
-      if (this.translationQueue.length >= 10) {
-        this.debugLog('Queue full (10 requests), flushing immediately');
-        this.flushQueue();
-      } else if (!this.queueTimer) {
-        this.debugLog('Starting 50ms queue timer');
-        this.queueTimer = setTimeout(() => this.flushQueue(), 50) as unknown as number;
+      // Auto-flush conditions: a full batch, or start the priority's timer
+      if (queue.length >= this.batching.maxItems) {
+        this.debugLog(`Queue full (${this.batching.maxItems} requests), flushing immediately`);
+        if (lowPriority) {
+          this.flushLowPriorityQueue();
+        } else {
+          this.flushQueue();
+        }
+      } else {
+        this.scheduleFlush(queuedTranslation.priority);
       }
     });
   }
 
   /**
-   * Flush the translation queue
+   * Schedule a queue flush for a priority, keeping an already scheduled flush if there is one
+   * High priority flushes once the current task ends, so translations requested
+   * during the same render still share a batch. Low priority has its own, longer timer
+   */
+  private scheduleFlush(priority: TranslationPriority): void {
+    if (priority === 'high') {
+      if (!this.immediateFlushScheduled) {
+        this.immediateFlushScheduled = true;
+        Promise.resolve().then(() => {
+          if (this.immediateFlushScheduled) this.flushQueue();
+        });
+      }
+      return;
+    }
+
+    if (priority === 'low') {
+      if (this.lowPriorityTimer) return;
+      const delay = this.batching.flushMs * LOW_PRIORITY_FLUSH_FACTOR;
+      this.debugLog(`Starting ${delay}ms low priority queue timer`);
+      this.lowPriorityTimer = setTimeout(() => this.flushLowPriorityQueue(), delay) as unknown as number;
+      return;
+    }
+
+    if (this.queueTimer) return;
+    this.debugLog(`Starting ${this.batching.flushMs}ms queue timer`);
+    this.queueTimer = setTimeout(() => this.flushQueue(), this.batching.flushMs) as unknown as number;
+  }
+
+  /**
+   * Raise the priority of a queued translation when a more urgent caller joins it
+   */
+  private promoteQueued(cacheKey: string, priority: TranslationPriority): void {
+    const queued = this.translationQueue.find(q => q.cacheKey === cacheKey)
+      || this.lowPriorityQueue.find(q => q.cacheKey === cacheKey);
+    if (!queued || PRIORITY_ORDER[priority] >= PRIORITY_ORDER[queued.priority]) return;
+
+    if (queued.priority === 'low') {
+      this.lowPriorityQueue = this.lowPriorityQueue.filter(q => q !== queued);
+      this.translationQueue.push(queued);
+    }
+    queued.priority = priority;
+    this.scheduleFlush(priority);
+  }
+
+  /**
+   * Remove a translation nobody is waiting for from the queues, or from batches
+   * waiting for a request slot. Requests already sent are left to finish and be cached
+   */
+  private dropQueued(cacheKey: string): void {
+    const matches = (q: QueuedTranslation) => q.cacheKey === cacheKey;
+    const dropped = [...this.translationQueue, ...this.lowPriorityQueue].filter(matches);
+    this.translationQueue = this.translationQueue.filter(q => !matches(q));
+    this.lowPriorityQueue = this.lowPriorityQueue.filter(q => !matches(q));
+
+    this.pendingBatches = this.pendingBatches
+      .map(batch => {
+        dropped.push(...batch.filter(matches));
+        return batch.filter(q => !matches(q));
+      })
+      .filter(batch => batch.length > 0);
+
+    if (dropped.length === 0) return;
+
+    this.debugLog(`Dropped aborted translation ${cacheKey} from the queue`);
+    this.inFlightTranslations.delete(cacheKey);
+    dropped.forEach(q => q.resolve({ value: q.sourceText }));
+  }
+
+  /**
+   * Flush the normal and high priority queue, low priority translations keep waiting
    */
-  private async flushQueue(): Promise<void> {
+  private flushQueue(): void {
     // Clear the timer
     if (this.queueTimer) {
       clearTimeout(this.queueTimer);
       this.queueTimer = null;
     }
+    this.immediateFlushScheduled = false;
     
     // Get current queue and reset
-    const currentQueue = [...this.translationQueue];
+    const currentQueue = this.translationQueue;
     this.translationQueue = [];
-    
+    this.sendQueued(currentQueue);
+  }
+
+  /**
+   * Flush the low priority queue, once it fills a batch or its timer fires
+   */
+  private flushLowPriorityQueue(): void {
+    if (this.lowPriorityTimer) {
+      clearTimeout(this.lowPriorityTimer);
+      this.lowPriorityTimer = null;
+    }
+
+    const currentQueue = this.lowPriorityQueue;
+    this.lowPriorityQueue = [];
+    this.sendQueued(currentQueue);
+  }
+
+  /**
+   * Split flushed translations into batches by size and payload, which are sent as request slots free up
+   */
+  private sendQueued(currentQueue: QueuedTranslation[]): void {
     if (currentQueue.length === 0) {
       this.debugLog('Queue flush called but queue is empty');
       return;
     }
     
     this.debugLog(`Flushing queue with ${currentQueue.length} translations`);
-    
+
+    // Most urgent translations go in the first batches
+    currentQueue.sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority]);
+    const batches = splitIntoBatches(currentQueue, queued => this.toBatchRequest(queued), this.batching);
+    this.emit('batchFlush', { size: currentQueue.length, batches: batches.length });
+    this.pendingBatches.push(...batches);
+    this.pendingBatches.sort((a, b) => PRIORITY_ORDER[a[0].priority] - PRIORITY_ORDER[b[0].priority]);
+
+    this.dispatchBatches();
+  }
+
+  /**
+   * Send pending batches while fewer than maxConcurrentBatches are in flight
+   */
+  private dispatchBatches(): void {
+    while (this.activeBatches < this.batching.maxConcurrentBatches && this.pendingBatches.length > 0) {
+      const batch = this.pendingBatches.shift()!;
+      this.activeBatches++;
+      const release = () => {
+        this.activeBatches--;
+        this.dispatchBatches();
+      };
+      this.sendBatch(batch).then(release, release);
+    }
+  }
+
+  /**
+   * Send one batch and resolve its queued translations, never rejects
+   */
+  private async sendBatch(batch: QueuedTranslation[]): Promise<void> {
     // Call batch translation API with retry (never throws)
-    const results = await this.translateBatchWithRetry(currentQueue);
+    const results = await this.translateBatchWithRetry(batch);
     
     // Resolve each promise with its result
-    for (let i = 0; i < currentQueue.length; i++) {
-      const queueItem = currentQueue[i];
+    for (let i = 0; i < batch.length; i++) {
+      const queueItem = batch[i];
       const result = results[i];
       
       // Cache the result if we got a valid response
-      if (result) {
+      if (!(result instanceof Error)) {
+        this.recordDetails(queueItem.cacheKey, { origin: 'api', stale: false });
+        let mismatch = false;
+        const translated = restorePlaceholders(result.value, queueItem.sourceText, () => { mismatch = true; }, this.logger);
+        if (mismatch) {
+          // Not cached, so the next render asks again
+          this.recordFallback(queueItem.cacheKey, queueItem.locale, queueItem.sourceText, 'placeholders');
+          queueItem.resolve({ value: queueItem.sourceText, error: new Error('Translation placeholders do not match the source message') });
+          continue;
+        }
         // Cache the successful translation locally (even if it's the same as original)
-        this.cache.set(queueItem.cacheKey, result);
-        queueItem.resolve(result);
+        this.writeCache(queueItem.cacheKey, translated, { locale: queueItem.locale, confidence: result.confidence });
+        this.recordDetails(queueItem.cacheKey, { translated });
+        queueItem.resolve({ value: translated, confidence: result.confidence });
       } else {
-        // Return original text for failed translations (already handled by retry logic)
-        queueItem.resolve(queueItem.text);
+        // Return original text for failed translations (already handled by retry logic),
+        // without caching it so the next render tries again
+        this.recordFallback(queueItem.cacheKey, queueItem.locale, queueItem.sourceText, 'error');
+        queueItem.resolve({ value: queueItem.sourceText, error: result });
       }
     }
   }
 
   /**
    * Make batch translation request with retry logic
-   * Never throws - always returns results array (original text for failures)
+   * Never throws - always returns results array (the error for failures)
    */
-  private async translateBatchWithRetry(queuedTranslations: QueuedTranslation[]): Promise<string[]> {
+  private async translateBatchWithRetry(queuedTranslations: QueuedTranslation[]): Promise<Array<ResolvedTranslation | Error>> {
+    let lastError: Error | undefined;
+
     const maxRetries = 1; // Single retry for batch requests
     const retryDelay = 500; // 500ms delay before retry
     
@@ -344,42 +1541,48 @@ export class LiveI18n {
         return await this.translateBatch(queuedTranslations);
       } catch (error: any) {
         const isLastAttempt = attempt === maxRetries;
+        lastError = error;
         
         // Check if it's a 4xx error - don't retry client errors
         let shouldRetry = true;
-        if (error?.message && error.message.includes('Batch API error:')) {
-          const statusMatch = error.message.match(/Batch API error: (\d+)/);
-          if (statusMatch) {
-            const statusCode = parseInt(statusMatch[1]);
-            if (statusCode >= 400 && statusCode < 500) {
-              this.debugLog(`4xx error (${statusCode}), not retrying batch translation`);
-              shouldRetry = false;
-            }
-          }
+        const statusCode: number | undefined = error?.statusCode;
+        if (statusCode && statusCode >= 400 && statusCode < 500) {
+          this.debugLog(`4xx error (${statusCode}), not retrying batch translation`);
+          shouldRetry = false;
         }
         
         if (isLastAttempt || !shouldRetry) {
           this.debugLog(`Batch translation failed after ${attempt + 1} attempts, returning original text for all`);
-          // Return original text for all translations instead of throwing
-          return queuedTranslations.map(q => q.text);
+          // Fail every translation instead of throwing
+          return queuedTranslations.map(() => error);
         }
         
         this.debugLog(`Batch translation attempt ${attempt + 1} failed, retrying in ${retryDelay}ms:`, error?.message || error);
+        this.emit('retry', { type: 'translateBatch', attempt: attempt + 1, delayMs: retryDelay, error });
         await this.sleep(retryDelay);
       }
     }
     
-    // Fallback - should never reach here, but return original text if we do
-    return queuedTranslations.map(q => q.text);
+    // Fallback - should never reach here, but fail every translation if we do
+    const error = lastError || new Error('Batch translation failed');
+    return queuedTranslations.map(() => error);
+  }
+
+  private toBatchRequest(queued: QueuedTranslation): BatchTranslationRequest {
+    // Locale, tone and context were resolved (and truncated) when the cache key was generated
+    return {
+      text: queued.text,
+      locale: queued.locale,
+      tone: queued.tone,
+      context: queued.context,
+      cache_key: queued.cacheKey
+    };
   }
 
   /**
    * Make batch translation request to API
    */
-  private async translateBatch(queuedTranslations: QueuedTranslation[]): Promise<string[]> {
-    // Detect locale once for efficiency
-    const detectedLocale = this.detectLocale();
-    
+  private async translateBatch(queuedTranslations: QueuedTranslation[]): Promise<Array<ResolvedTranslation | Error>> {
     // Prepare batch request (filtering out texts that are too long)
     const requests: BatchTranslationRequest[] = [];
     const validIndices: number[] = [];
@@ -389,53 +1592,31 @@ export class LiveI18n {
       
       // Check text length (same as individual translate method)
       if (queued.text.length > 5000) {
-        console.error('LiveI18n: Text exceeds 5000 character limit in batch request');
+        this.logger.error('LiveI18n: Text exceeds 5000 character limit in batch request');
         // This translation will return original text
         continue;
       }
       
-      const locale = queued.options?.language || this.defaultLanguage || detectedLocale;
-      const tone = (queued.options?.tone || '').substring(0, 50); // Truncate like individual method
-      const context = (queued.options?.context || '').substring(0, 500); // Truncate like individual method
-      
-      requests.push({
-        text: queued.text,
-        locale,
-        tone,
-        context,
-        cache_key: queued.cacheKey
-      });
+      requests.push(this.toBatchRequest(queued));
       
       validIndices.push(i);
     }
     
     this.debugLog(`Making batch request with ${requests.length} valid translations (${queuedTranslations.length - requests.length} filtered out)`);
     
-    // If no valid requests, return all original texts
+    // Texts filtered out for length fail, every translation does if none are left
+    const tooLong = new Error('Text exceeds 5000 character limit');
     if (requests.length === 0) {
-      return queuedTranslations.map(q => q.text);
+      return queuedTranslations.map(() => tooLong);
     }
     
-    const response = await fetch(`${this.endpoint}/api/v1/translate_batch`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-API-Key': this.apiKey,
-        'X-Customer-ID': this.customerId,
-      },
-      body: JSON.stringify({
-        requests: requests
-      }),
-    });
-
-    if (!response.ok) {
-      throw new TranslationError(`Batch API error: ${response.status} ${response.statusText}`, response.status);
-    }
-
-    const batchResponse: BatchTranslationResponse = await response.json();
+    const batchResponse: BatchTranslationResponse = await this.timeRequest('translateBatch', requests.length, () =>
+      this.transport.translateBatch(requests)
+    );
     
     // Map responses back to the original order by cache_key
-    const results: string[] = new Array(queuedTranslations.length);
+    // Translations without a response (or filtered out for length) fail
+    const results: Array<ResolvedTranslation | Error> = queuedTranslations.map(() => tooLong);
     
     // Fill in results for valid translations
     for (let i = 0; i < validIndices.length; i++) {
@@ -444,26 +1625,27 @@ export class LiveI18n {
       const responseItem = batchResponse.responses.find(r => r.cache_key === originalCacheKey);
       
       if (responseItem) {
-        results[originalIndex] = responseItem.translated;
+        results[originalIndex] = { value: responseItem.translated, confidence: responseItem.confidence };
+        this.recordDetails(originalCacheKey, { confidence: responseItem.confidence });
         
         // Log warnings for low confidence translations
-        if (responseItem.confidence < 0.4) {
-          console.warn(`LiveI18n: Low confidence batch translation (${responseItem.confidence}):`, {
-            original: queuedTranslations[originalIndex].text,
+        if (responseItem.confidence < this.lowConfidenceThreshold) {
+          const queued = queuedTranslations[originalIndex];
+          this.logger.warn(`LiveI18n: Low confidence batch translation (${responseItem.confidence}):`, {
+            original: queued.text,
+            translated: responseItem.translated
+          });
+          this.emit('lowConfidence', {
+            cacheKey: queued.cacheKey,
+            locale: queued.locale,
+            confidence: responseItem.confidence,
+            text: queued.sourceText,
             translated: responseItem.translated
           });
         }
       } else {
-        // Fallback if response not found
-        results[originalIndex] = queuedTranslations[originalIndex].text;
-        console.warn(`LiveI18n: No batch response found for cache key: ${originalCacheKey}`);
-      }
-    }
-    
-    // Fill in original text for invalid translations (text too long)
-    for (let i = 0; i < queuedTranslations.length; i++) {
-      if (results[i] === undefined) {
-        results[i] = queuedTranslations[i].text; // Return original text for filtered items
+        this.logger.warn(`LiveI18n: No batch response found for cache key: ${originalCacheKey}`);
+        results[originalIndex] = new Error(`No batch response for cache key: ${originalCacheKey}`);
       }
     }
     
@@ -474,28 +1656,112 @@ export class LiveI18n {
    * Clear local cache
    */
   clearCache(): void {
-    this.cache.clear();
+    this.corrections.clear();
+    const result = this.cache.clear();
+    if (isPromise(result)) {
+      result.catch(error => this.logger.warn('LiveI18n: Failed to clear cache:', error));
+    }
+    this.suspenseReads.clear();
   }
 
   /**
    * Get cache statistics
    */
-  getCacheStats(): { size: number; maxSize: number } {
+  getCacheStats(): LiveI18nCacheStats {
+    const stats = this.cache.stats();
+    // Async adapters (e.g. IndexedDB) report their stats through loadCacheStats() only
+    return this.buildCacheStats(isPromise(stats) ? { size: 0 } : stats);
+  }
+
+  /**
+   * Get cache statistics, waiting for adapters that read them asynchronously
+   */
+  async loadCacheStats(): Promise<LiveI18nCacheStats> {
+    return this.buildCacheStats(await this.cache.stats());
+  }
+
+  /**
+   * Reset hit, miss, eviction, expiry and API latency counters
+   */
+  resetStats(): void {
+    this.statsCounters = createStatsCounters();
+    this.cache.resetStats?.();
+  }
+
+  private buildCacheStats(cacheStats: CacheStats): LiveI18nCacheStats {
+    const { hits, misses, requests, failures, latencyMs } = this.statsCounters;
+    const totalHits = hits.memory + hits.persistent + hits.bundle;
+    // Bundles are checked last, so their misses are the lookups that needed the API
+    const lookups = totalHits + misses.bundle;
+
     return {
-      size: this.cache.size(),
-      maxSize: 500
+      ...cacheStats,
+      maxSize: cacheStats.maxSize ?? this.maxCacheSize,
+      hits: { ...hits },
+      misses: { ...misses },
+      hitRate: lookups > 0 ? totalHits / lookups : 0,
+      api: {
+        requests,
+        failures,
+        averageLatencyMs: requests > 0 ? Math.round(latencyMs / requests) : 0
+      }
     };
   }
 
   /**
    * Update the default language without re-initializing
+   * Saved with languagePersistence, undefined (auto-detect) removes the saved language
    */
   updateDefaultLanguage(language?: string): void {
+    this.setDefaultLanguage(language);
+    this.languageStore?.set(language);
+  }
+
+  /**
+   * Follow language changes saved by other tabs, with languagePersistence set
+   * LiveI18nProvider calls this while mounted. Returns a function that stops following
+   */
+  syncSavedLanguage(): () => void {
+    if (!this.languageStore?.subscribe) return () => {};
+    return this.languageStore.subscribe(() => {
+      const language = this.readSavedLanguage();
+      if (language !== this.defaultLanguage) {
+        this.debugLog(`Language changed to ${language || 'auto-detect'} in another tab`);
+        this.setDefaultLanguage(language);
+      }
+    });
+  }
+
+  /**
+   * Read the language saved by languagePersistence, ignoring ones outside allowedLocales
+   */
+  private readSavedLanguage(): string | undefined {
+    const language = this.languageStore?.get();
+    if (language && this.allowedLocales && !this.allowedLocales.includes(language)) {
+      this.debugLog(`Ignoring saved language ${language}, it isn't one of allowedLocales`);
+      return undefined;
+    }
+    return language;
+  }
+
+  private setDefaultLanguage(language?: string): void {
+    const previous = this.defaultLanguage;
     this.defaultLanguage = language;
     // Clear cached detected locale since language preference has changed
     this.cachedDetectedLocale = null;
+    // Retry translations that previously fell back to the source text
+    this.suspenseReads.clear();
     // Notify all listeners of the language change
     this.languageChangeListeners.forEach(listener => listener(language));
+    this.emit('languageChange', { language, previous });
+  }
+
+  /**
+   * Get the locale translations currently target, for the given language or the default one
+   */
+  getCurrentLocale(language?: string): string {
+    // Pseudo-localization overrides every target language
+    return this.pseudoLocale || language || this.defaultLanguage || this.detectLocale();
   }
 
   /**
@@ -505,6 +1771,20 @@ export class LiveI18n {
     return this.defaultLanguage;
   }
 
+  /**
+   * Get the allowedLocales whitelist, if configured
+   */
+  getAllowedLocales(): string[] | undefined {
+    return this.allowedLocales;
+  }
+
+  /**
+   * Get this instance's console logger, silenced by the silent option
+   */
+  getLogger(): Logger {
+    return this.logger;
+  }
+
   /**
    * Get the current loading pattern configuration
    */
@@ -529,6 +1809,61 @@ export class LiveI18n {
   }
 
 
+  /**
+   * Subscribe to a translation lifecycle event, e.g. to feed analytics or monitoring
+   * Returns an unsubscribe function
+   *
+   * @example
+   * ```ts
+   * i18n.on('requestEnd', ({ type, count, durationMs }) => metrics.timing('i18n.request', durationMs, { type, count }));
+   * i18n.on('fallback', ({ text, locale, reason }) => monitoring.report('untranslated', { text, locale, reason }));
+   * ```
+   */
+  on<E extends LiveI18nEvent>(event: E, handler: LiveI18nEventHandler<E>): () => void {
+    const handlers = (this.eventHandlers[event] || []) as Array<LiveI18nEventHandler<E>>;
+    handlers.push(handler);
+    this.eventHandlers[event] = handlers as typeof this.eventHandlers[E];
+
+    // Return unsubscribe function
+    return () => {
+      const index = handlers.indexOf(handler);
+      if (index > -1) {
+        handlers.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Call event handlers, a throwing handler doesn't affect translation or other handlers
+   */
+  private emit<E extends LiveI18nEvent>(event: E, payload: LiveI18nEventMap[E]): void {
+    const handlers = this.eventHandlers[event] as Array<LiveI18nEventHandler<E>> | undefined;
+    handlers?.slice().forEach(handler => {
+      try {
+        handler(payload);
+      } catch (error) {
+        this.logger.warn(`LiveI18n: Error in ${event} event handler:`, error);
+      }
+    });
+  }
+
+  /**
+   * Add a listener for translations refreshed in the background (stale-while-revalidate)
+   * The listener receives the cache key of the updated translation
+   * Returns an unsubscribe function
+   */
+  addTranslationUpdateListener(listener: (cacheKey: string) => void): () => void {
+    this.translationUpdateListeners.push(listener);
+
+    // Return unsubscribe function
+    return () => {
+      const index = this.translationUpdateListeners.indexOf(listener);
+      if (index > -1) {
+        this.translationUpdateListeners.splice(index, 1);
+      }
+    };
+  }
+
   /**
    * Get supported languages from the API
    * @param all - If true, returns all supported languages. If false/undefined, returns top 20
@@ -548,23 +1883,7 @@ export class LiveI18n {
     try {
       this.debugLog(`Fetching supported languages from API (${cacheKey})`);
       
-      const url = new URL(`${this.endpoint}/api/v1/languages/supported`);
-      if (all) {
-        url.searchParams.set('all', 'true');
-      }
-      
-      const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        throw new TranslationError(`Supported languages API error: ${response.status} ${response.statusText}`, response.status);
-      }
-
-      const result: SupportedLanguagesResponse = await response.json();
+      const result = await this.transport.supportedLanguages(all);
       
       // Cache the result
       this.supportedLanguagesCache[cacheKey] = {
@@ -576,15 +1895,98 @@ export class LiveI18n {
       
       return result;
     } catch (error: any) {
-      console.error('LiveI18n: Failed to fetch supported languages:', error);
+      this.logger.error('LiveI18n: Failed to fetch supported languages:', error);
       throw error;
     }
   }
 
   /**
-   * Detect browser locale (cached for performance with TTL)
+   * Negotiate the language to translate into when no default language is set
+   * Matches the request's Accept-Language header on the server, or navigator.languages in the
+   * browser, against allowedLocales or the API's supported languages (see negotiateLocale()).
+   * Without a match the first allowed locale is used, or the preferred locale as-is.
+   * LiveI18nProvider calls this on mount while no default language is set
+   *
+   * @param requested - Preferred locales to negotiate instead, most preferred first
+   */
+  negotiateLanguage(requested?: string[]): Promise<string> {
+    if (requested) return this.runNegotiation(requested);
+
+    // The provider and translations waiting for the locale share one negotiation
+    if (!this.negotiation) {
+      this.negotiation = this.runNegotiation(this.getRequestedLocales()).finally(() => {
+        this.negotiation = undefined;
+      });
+    }
+    return this.negotiation;
+  }
+
+  private async runNegotiation(requested: string[]): Promise<string> {
+    let available = this.allowedLocales;
+    if (!available) {
+      try {
+        available = (await this.getSupportedLanguages(true)).languages.map(language => language.locale);
+      } catch (error) {
+        // Translations aren't held back again, they use the preferred locale
+        this.negotiationSettled = true;
+        this.logger.warn('LiveI18n: Could not load supported languages, using the preferred locale as-is');
+        return this.pickLocale(requested);
+      }
+    }
+    this.negotiationSettled = true;
+
+    const negotiated = this.pickLocale(requested, available);
+    if (negotiated !== this.negotiatedLanguage) {
+      this.negotiatedLanguage = negotiated;
+      this.cachedDetectedLocale = null;
+      this.suspenseReads.clear();
+      this.debugLog(`Negotiated language ${negotiated} from ${JSON.stringify(requested)}`);
+    }
+    return negotiated;
+  }
+
+  /**
+   * Get the language negotiated by negotiateLanguage(), if it has run
+   */
+  getNegotiatedLanguage(): string | undefined {
+    return this.negotiatedLanguage;
+  }
+
+  /**
+   * Preferred locales of the user, most preferred first
+   */
+  private getRequestedLocales(): string[] {
+    if (this.acceptLanguage !== undefined) {
+      return parseAcceptLanguage(this.acceptLanguage);
+    }
+    if (typeof window !== 'undefined' && window.navigator) {
+      const { languages, language } = window.navigator;
+      if (languages?.length) return [...languages];
+      if (language) return [language];
+    }
+    return [];
+  }
+
+  private pickLocale(requested: string[], available?: string[]): string {
+    const negotiated = available && negotiateLocale(requested, available);
+    return negotiated || this.allowedLocales?.[0] || requested[0] || 'en-US';
+  }
+
+  /**
+   * allowedLocales, or the supported languages once they're loaded
+   */
+  private getKnownLocales(): string[] | undefined {
+    return this.allowedLocales || this.supportedLanguagesCache['all']?.data.languages.map(language => language.locale);
+  }
+
+  /**
+   * Detect the user's locale (cached for performance with TTL)
+   * Uses the negotiated language once negotiateLanguage() has run. Before that, preferred
+   * locales are matched against allowedLocales or an already loaded supported languages list
    */
   private detectLocale(): string {
+    if (this.negotiatedLanguage) return this.negotiatedLanguage;
+
     const now = Date.now();
     
     // Return cached locale if still valid
@@ -594,10 +1996,7 @@ export class LiveI18n {
     }
     
     // Detect and cache the locale
-    let detectedLocale = 'en-US';
-    if (typeof window !== 'undefined' && window.navigator) {
-      detectedLocale = window.navigator.language || 'en-US';
-    }
+    const detectedLocale = this.pickLocale(this.getRequestedLocales(), this.getKnownLocales());
     
     this.cachedDetectedLocale = {
       locale: detectedLocale,
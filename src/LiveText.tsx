@@ -1,7 +1,10 @@
-import React, { useEffect, useState, useCallback, useMemo, createContext, useContext } from 'react';
-import { LiveI18n } from './LiveI18n';
-import type { LiveTextOptions, LiveI18nConfig } from './types';
+import React, { useEffect, useState, useCallback, useMemo, useRef, createContext, useContext } from 'react';
+import { LiveI18n, isAbortError } from './LiveI18n';
+import type { LiveTextOptions, TranslateOptions, TranslationResult, LiveI18nConfig, DehydratedTranslations, TranslationBundleSource, TranslationCorrection, LiveI18nEvent, LiveI18nEventHandler } from './types';
 import { generateLoadingText } from './loadingIndicator';
+import { extractRichContent, renderRichText } from './richText';
+import { formatMessage } from './messageFormat';
+import { logger } from './logger';
 
 // No longer using global instance - all access through Context Provider
 
@@ -9,12 +12,15 @@ import { generateLoadingText } from './loadingIndicator';
 interface LiveI18nContextValue {
   instance: LiveI18n | null;
   defaultLanguage: string | undefined;
+  /** Language negotiated from the user's preferred locales, used while no default language is set */
+  negotiatedLanguage: string | undefined;
   updateDefaultLanguage: (language?: string) => void;
 }
 
 export const LiveI18nContext = createContext<LiveI18nContextValue>({
   instance: null,
   defaultLanguage: undefined,
+  negotiatedLanguage: undefined,
   updateDefaultLanguage: () => {}
 });
 
@@ -23,7 +29,7 @@ export const LiveI18nContext = createContext<LiveI18nContextValue>({
  * @deprecated Use LiveI18nProvider component instead
  */
 export function initializeLiveI18n(config: LiveI18nConfig): void {
-  console.warn('initializeLiveI18n is deprecated. Use LiveI18nProvider component instead.');
+  logger.warn('initializeLiveI18n is deprecated. Use LiveI18nProvider component instead.');
 }
 
 /**
@@ -31,7 +37,7 @@ export function initializeLiveI18n(config: LiveI18nConfig): void {
  * @deprecated Use useLiveI18n hook within LiveI18nProvider instead
  */
 export function getLiveI18nInstance(): LiveI18n | null {
-  console.warn('getLiveI18nInstance is deprecated. Use useLiveI18n hook within LiveI18nProvider instead.');
+  logger.warn('getLiveI18nInstance is deprecated. Use useLiveI18n hook within LiveI18nProvider instead.');
   return null;
 }
 
@@ -42,13 +48,52 @@ export function getLiveI18nInstance(): LiveI18n | null {
 export interface LiveI18nProviderProps {
   config: LiveI18nConfig;
   children: React.ReactNode;
+  /** Use an existing instance instead of creating one from config (e.g. a per-request server instance) */
+  instance?: LiveI18n;
+  /** Translations serialized on the server with LiveI18n.dehydrate(), applied before the first render */
+  dehydratedState?: DehydratedTranslations;
+  /** Pre-translated bundles from `livei18n extract` by locale, loaded when the locale is first used */
+  bundles?: Record<string, TranslationBundleSource>;
 }
 
-export const LiveI18nProvider: React.FC<LiveI18nProviderProps> = ({ config, children }) => {
-  const [instance] = useState(() => new LiveI18n(config));
+export const LiveI18nProvider: React.FC<LiveI18nProviderProps> = ({ config, children, instance: providedInstance, dehydratedState, bundles }) => {
+  const [instance] = useState(() => {
+    const liveI18n = providedInstance || new LiveI18n(config);
+    if (dehydratedState) {
+      liveI18n.hydrate(dehydratedState);
+    }
+    if (bundles) {
+      liveI18n.addBundles(bundles);
+      // Start loading the current locale's bundle before anything renders
+      liveI18n.loadBundle(liveI18n.getCurrentLocale());
+    }
+    return liveI18n;
+  });
   const [defaultLanguage, setDefaultLanguage] = useState<string | undefined>(
     instance.getDefaultLanguage()
   );
+  const [negotiatedLanguage, setNegotiatedLanguage] = useState(() => instance.getNegotiatedLanguage());
+
+  // Auto-detection negotiates the user's preferred locales against the supported languages
+  useEffect(() => {
+    if (defaultLanguage) return;
+    let active = true;
+    instance.negotiateLanguage().then(() => {
+      if (active) setNegotiatedLanguage(instance.getNegotiatedLanguage());
+    });
+    return () => { active = false; };
+  }, [instance, defaultLanguage]);
+
+  // Follow language changes made in other tabs (languagePersistence) or on the instance directly
+  useEffect(() => {
+    setDefaultLanguage(instance.getDefaultLanguage());
+    const unsubscribe = instance.addLanguageChangeListener(setDefaultLanguage);
+    const stopSync = instance.syncSavedLanguage();
+    return () => {
+      unsubscribe();
+      stopSync();
+    };
+  }, [instance]);
 
   const updateDefaultLanguage = useCallback((language?: string) => {
     instance.updateDefaultLanguage(language);
@@ -58,8 +103,9 @@ export const LiveI18nProvider: React.FC<LiveI18nProviderProps> = ({ config, chil
   const contextValue = useCallback(() => ({
     instance,
     defaultLanguage,
+    negotiatedLanguage,
     updateDefaultLanguage
-  }), [instance, defaultLanguage, updateDefaultLanguage]);
+  }), [instance, defaultLanguage, negotiatedLanguage, updateDefaultLanguage]);
 
   return (
     <LiveI18nContext.Provider value={contextValue()}>
@@ -69,33 +115,200 @@ export const LiveI18nProvider: React.FC<LiveI18nProviderProps> = ({ config, chil
 };
 
 /**
- * Extract string content from React.ReactNode
- * Handles strings, numbers, arrays of strings/numbers, and filters out non-text content
+ * Read a translation from the cache for the first render
+ * During server rendering, misses are queued so renderWithTranslations can resolve them
+ * before rendering again
  */
-function extractStringContent(children: React.ReactNode): string {
-  if (typeof children === 'string') {
-    return children;
-  }
-  
-  if (typeof children === 'number') {
-    return children.toString();
-  }
-  
-  if (Array.isArray(children)) {
-    return children
-      .filter(child => typeof child === 'string' || typeof child === 'number')
-      .map(child => typeof child === 'number' ? child.toString() : child)
-      .join('');
-  }
-  
-  // For other ReactNode types (React elements, fragments, etc.), 
-  // try to convert to string but warn about potential issues
-  if (children != null && typeof children === 'object') {
-    console.warn('LiveText: Non-string React elements detected. Only string content will be translated.');
-    return String(children);
-  }
-  
-  return String(children || '');
+function useInitialTranslation(instance: LiveI18n, text: string, options: LiveTextOptions): TranslationResult | undefined {
+  const [initial] = useState(() => {
+    if (!text.trim()) return undefined;
+
+    const cached = instance.getCachedResult(text, options);
+    if (cached === undefined && typeof window === 'undefined') {
+      // The server waits for these before rendering again, so don't hold them back
+      instance.prefetch(text, { ...options, priority: options.priority || 'normal' });
+    }
+    return cached;
+  });
+
+  return initial;
+}
+
+/**
+ * Re-render with translations refreshed in the background (stale-while-revalidate)
+ * Calls onUpdate with the new translation when the entry for this text is refreshed
+ */
+function useTranslationUpdates(
+  instance: LiveI18n,
+  text: string,
+  options: LiveTextOptions,
+  onUpdate: (result: TranslationResult) => void
+): void {
+  // Keep the latest arguments without resubscribing on every render
+  const latest = useRef({ text, options, onUpdate });
+  latest.current = { text, options, onUpdate };
+
+  const cacheKey = text.trim() ? instance.getCacheKey(text, options) : '';
+
+  useEffect(() => {
+    if (!cacheKey) return;
+
+    return instance.addTranslationUpdateListener(updatedKey => {
+      if (updatedKey !== cacheKey) return;
+      const { text, options, onUpdate } = latest.current;
+      const result = instance.peekCachedResult(text, options);
+      if (result !== undefined) {
+        onUpdate(result);
+      }
+    });
+  }, [instance, cacheKey]);
+}
+
+interface TranslationResultSettings {
+  /** Text shown after a failed translation, the text with its values substituted */
+  sourceText: string;
+  /** Names the component or hook in logged errors */
+  label: string;
+  /** Translation Suspense already resolved during render */
+  suspended?: string;
+  /** Changing it translates again, for retry buttons */
+  refresh?: number;
+  /** Called with the translated text, whether it was cached, suspended or requested */
+  onComplete?: (translated: string) => void;
+  /** Called when translating failed after retries */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Translate text for LiveText, useLiveText and useLiveTextState
+ * Cached translations are returned from the first render, misses are requested and aborted once
+ * superseded (new text or language, refresh, unmount), and refreshed entries replace the result.
+ * A failed translation resolves to the source text with its error
+ *
+ * @returns The result (undefined while loading or for empty text), whether it's loading, and
+ * how many times the request was retried
+ */
+export function useTranslationResult(
+  instance: LiveI18n,
+  text: string,
+  options: LiveTextOptions,
+  settings: TranslationResultSettings
+): { result: TranslationResult | undefined; isLoading: boolean; retries: number } {
+  const { defaultLanguage, negotiatedLanguage } = useContext(LiveI18nContext);
+  const valuesKey = options.values ? JSON.stringify(options.values) : '';
+
+  // Cached (or server-hydrated) translations are returned from the first render
+  const initialTranslation = useInitialTranslation(instance, text, options);
+
+  const [result, setResult] = useState(initialTranslation);
+  const [isLoading, setIsLoading] = useState(initialTranslation === undefined && !!text.trim());
+  const [retries, setRetries] = useState(0);
+  // The first render already looked this up, don't count the cache hit twice
+  const initialLookup = useRef(initialTranslation);
+
+  // Stale cache entries are returned right away, then swapped once refreshed
+  useTranslationUpdates(instance, text, options, setResult);
+
+  // Keep the latest callbacks without translating again when they change
+  const latest = useRef({ options, settings });
+  latest.current = { options, settings };
+
+  useEffect(() => {
+    const { options, settings } = latest.current;
+    const initial = initialLookup.current;
+    initialLookup.current = undefined;
+
+    // Don't translate empty strings
+    if (!text.trim()) {
+      setResult(undefined);
+      setIsLoading(false);
+      return;
+    }
+
+    // Suspense already resolved the translation during render
+    if (settings.suspended !== undefined) {
+      setIsLoading(false);
+      settings.onComplete?.(settings.suspended);
+      return;
+    }
+
+    // Skip the loading state entirely when the translation is already cached
+    const cached = initial ?? instance.getCachedResult(text, options);
+    if (cached !== undefined) {
+      setResult(cached);
+      setIsLoading(false);
+      settings.onComplete?.(cached.text);
+      return;
+    }
+
+    setResult(undefined);
+    setIsLoading(true);
+
+    // Aborted when superseded, so a late response can't overwrite a newer one
+    const controller = new AbortController();
+
+    const onRetry = (attempt: number) => {
+      if (!controller.signal.aborted) setRetries(attempt);
+    };
+
+    const show = (translation: TranslationResult) => {
+      const { settings } = latest.current;
+      setResult(translation);
+      setIsLoading(false);
+      if (translation.error) {
+        settings.onError?.(translation.error);
+      } else {
+        settings.onComplete?.(translation.text);
+      }
+    };
+
+    instance
+      .translateWithResult(text, { ...options, signal: controller.signal }, onRetry)
+      .then(show)
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        instance.getLogger().error(`${settings.label} translation failed:`, error);
+        show({
+          text: settings.sourceText,
+          locale: instance.getCurrentLocale(options.language),
+          lowConfidence: false,
+          flagged: false,
+          isFallback: true,
+          error: error instanceof Error ? error : new Error(String(error))
+        });
+      });
+
+    return () => controller.abort();
+  }, [
+    text,
+    options.context,
+    options.tone,
+    options.language,
+    options.minConfidence,
+    options.lowConfidencePolicy,
+    valuesKey,
+    settings.suspended,
+    settings.refresh,
+    defaultLanguage, // Re-translate when default language changes
+    negotiatedLanguage,
+    instance
+  ]);
+
+  return { result, isLoading, retries };
+}
+
+/**
+ * Track whether LiveI18nDevtools is inspecting this instance
+ */
+function useInspecting(instance: LiveI18n): boolean {
+  const [inspecting, setInspecting] = useState(() => instance.isInspecting());
+
+  useEffect(() => {
+    setInspecting(instance.isInspecting());
+    return instance.addInspectorListener(setInspecting);
+  }, [instance]);
+
+  return inspecting;
 }
 
 /**
@@ -103,8 +316,10 @@ function extractStringContent(children: React.ReactNode): string {
  * 
  * Usage:
  * <LiveText tone="formal" context="navigation">Hello World</LiveText>
- * <LiveText>Hello {name}!</LiveText>
- * <LiveText>You have {count} {count === 1 ? 'message' : 'messages'}</LiveText>
+ * <LiveText values={{ name }}>{'Hello {name}!'}</LiveText>
+ * <LiveText values={{ count }}>{'You have {count, plural, one {# message} other {# messages}}'}</LiveText>
+ * <LiveText>Read our <a href="/terms">terms</a> today</LiveText>
+ * <LiveText priority="high">Above-the-fold headline</LiveText>
  */
 export interface LiveTextProps extends LiveTextOptions {
   children: React.ReactNode;
@@ -118,17 +333,14 @@ export const LiveText: React.FC<LiveTextProps> = ({
   tone,
   context,
   language,
+  values,
+  priority,
+  minConfidence,
+  lowConfidencePolicy,
   fallback,
   onTranslationComplete,
   onError
 }) => {
-  // Extract string content from children
-  const textContent = extractStringContent(children);
-  
-  const [translated, setTranslated] = useState(textContent);
-  const [isLoading, setIsLoading] = useState(true);
-  const [attempts, setAttempts] = useState(0);
-  
   const contextValue = useContext(LiveI18nContext);
   
   if (!contextValue.instance) {
@@ -136,62 +348,68 @@ export const LiveText: React.FC<LiveTextProps> = ({
   }
 
   const instance = contextValue.instance;
-  const defaultLanguage = contextValue.defaultLanguage;
 
-  useEffect(() => {
-    // if we are on a second attempt set loading to false
-    // this way we can show the original text and exit the loading animation early
-    // while we keep attempting translation in the background
-    if (attempts > 0 && isLoading) {
-      setIsLoading(false);
-    }
-  }, [attempts]);
+  // Extract text from children, nested elements become numbered tags (<0>terms</0>)
+  const { text: textContent, elements } = extractRichContent(children, instance.getLogger());
 
-  useEffect(() => {
-    // Don't translate empty strings
-    if (!textContent.trim()) {
-      setIsLoading(false);
-      return;
-    }
+  // Values are substituted locally, so the template is what gets translated and cached
+  const sourceText = values ? formatMessage(textContent, values, undefined, instance.getLogger()) : textContent;
+  const options: LiveTextOptions = { tone, context, language, values, priority, minConfidence, lowConfidencePolicy };
 
-    setIsLoading(true);
+  // In suspense mode a cache miss suspends rendering until the translation arrives
+  const suspense = instance.isSuspenseEnabled();
+  const suspendedTranslation = suspense && textContent.trim()
+    ? instance.readTranslation(textContent, options)
+    : undefined;
 
-    const onRetry: (attempts: number) => void = (attempts: number) => {
-      setAttempts(attempts)
-    }
+  // Cached (or server-hydrated) translations render immediately without a loading state
+  const { result, isLoading, retries } = useTranslationResult(instance, textContent, options, {
+    sourceText,
+    label: 'LiveText',
+    suspended: suspendedTranslation,
+    onComplete: translated => onTranslationComplete?.(sourceText, translated),
+    onError
+  });
+  const inspecting = useInspecting(instance);
 
-    instance
-      .translate(textContent, { tone, context, language }, onRetry)
-      .then((result) => {
-        setTranslated(result);
-        onTranslationComplete?.(textContent, result);
-      })
-      .catch((error) => {
-        console.error('LiveText translation failed:', error);
-        setTranslated(fallback || textContent);
-        onError?.(error);
-      })
-      .finally(() => {
-        setIsLoading(false);
-      });
-  }, [
-    textContent, 
-    tone, 
-    context, 
-    language, 
-    defaultLanguage, 
-    fallback, 
-    onTranslationComplete, 
-    onError, 
-    instance
-  ]);
+  // Translating failed after retries, show the fallback instead of the source text
+  const failed = !!result?.error;
+  const translated = failed ? fallback || sourceText : result?.text ?? sourceText;
+  // Low confidence translations shown with the 'flag' policy
+  const flagged = !failed && !!result?.flagged;
 
-  // Show loading indicator on initial load (attempts = 0) while loading
-  const shouldShowLoading = isLoading && attempts === 0;
+  // Show the loading indicator until the first retry, then the source text while retrying in the background
+  const shouldShowLoading = isLoading && retries === 0;
   const loadingPattern = instance.getLoadingPattern();
-  const displayText = shouldShowLoading ? generateLoadingText(textContent, loadingPattern) : translated;
-  
-  return <>{displayText}</>;
+  const content = suspendedTranslation !== undefined
+    ? renderRichText(suspendedTranslation, elements)
+    : shouldShowLoading
+      ? renderRichText(sourceText, elements, segment => generateLoadingText(segment, loadingPattern))
+      : renderRichText(translated, elements);
+
+  // Fall back to the source content if the translation mangled the element tags
+  const rendered = content ?? renderRichText(sourceText, elements);
+
+  // Flagged translations are marked for styling, LiveI18nDevtools finds strings by the
+  // other attributes. Nothing is wrapped otherwise
+  const lowConfidence = flagged && !shouldShowLoading && suspendedTranslation === undefined;
+  if (inspecting || lowConfidence) {
+    const inspectorAttributes = inspecting ? {
+      'data-livei18n': '',
+      'data-livei18n-text': textContent,
+      'data-livei18n-tone': tone,
+      'data-livei18n-context': context,
+      'data-livei18n-language': language
+    } : undefined;
+
+    return (
+      <span {...inspectorAttributes} data-livei18n-low-confidence={lowConfidence ? '' : undefined}>
+        {rendered}
+      </span>
+    );
+  }
+
+  return <>{rendered}</>;
 };
 
 /**
@@ -208,33 +426,47 @@ export function useLiveI18n() {
   const instance = context.instance; // TypeScript now knows this is not null
 
   // Memoize the translate function to prevent recreation on every render
-  const translate = useCallback(async (text: string, options?: LiveTextOptions): Promise<string> => {
+  const translate = useCallback(async (text: string, options?: TranslateOptions): Promise<string> => {
     return instance.translate(text, options);
   }, [instance]);
 
   // Memoize instance-based functions
   const clearCache = useCallback(() => instance.clearCache(), [instance]);
-  const getCacheStats = useCallback(() => instance.getCacheStats() || { size: 0, maxSize: 0 }, [instance]);
+  const getCacheStats = useCallback(() => instance.getCacheStats(), [instance]);
+  const loadCacheStats = useCallback(() => instance.loadCacheStats(), [instance]);
+  const resetStats = useCallback(() => instance.resetStats(), [instance]);
+  const submitCorrection = useCallback((correction: TranslationCorrection) => instance.submitCorrection(correction), [instance]);
   const getDefaultLanguage = useCallback(() => instance.getDefaultLanguage(), [instance]);
   const getSupportedLanguages = useCallback((all?: boolean) => instance.getSupportedLanguages(all), [instance]);
+  const on = useCallback(<E extends LiveI18nEvent>(event: E, handler: LiveI18nEventHandler<E>) => instance.on(event, handler), [instance]);
 
   // Memoize the entire return object
   return useMemo(() => ({
     translate,
     defaultLanguage: context.defaultLanguage,
+    negotiatedLanguage: context.negotiatedLanguage,
     clearCache,
     getCacheStats,
+    loadCacheStats,
+    resetStats,
     updateDefaultLanguage: context.updateDefaultLanguage,
     getDefaultLanguage,
-    getSupportedLanguages
+    getSupportedLanguages,
+    submitCorrection,
+    on
   }), [
     translate,
     context.defaultLanguage,
+    context.negotiatedLanguage,
     clearCache,
     getCacheStats,
+    loadCacheStats,
+    resetStats,
     context.updateDefaultLanguage,
     getDefaultLanguage,
-    getSupportedLanguages
+    getSupportedLanguages,
+    submitCorrection,
+    on
   ]);
 }
 
@@ -243,7 +475,7 @@ export function useLiveI18n() {
  * @deprecated Use updateDefaultLanguage from useLiveI18n hook within LiveI18nProvider instead
  */
 export function updateDefaultLanguage(language?: string): void {
-  console.warn('updateDefaultLanguage standalone function is deprecated. Use updateDefaultLanguage from useLiveI18n hook within LiveI18nProvider instead.');
+  logger.warn('updateDefaultLanguage standalone function is deprecated. Use updateDefaultLanguage from useLiveI18n hook within LiveI18nProvider instead.');
 }
 
 /**
@@ -251,6 +483,6 @@ export function updateDefaultLanguage(language?: string): void {
  * @deprecated Use defaultLanguage from useLiveI18n hook within LiveI18nProvider instead
  */
 export function getDefaultLanguage(): string | undefined {
-  console.warn('getDefaultLanguage standalone function is deprecated. Use defaultLanguage from useLiveI18n hook within LiveI18nProvider instead.');
+  logger.warn('getDefaultLanguage standalone function is deprecated. Use defaultLanguage from useLiveI18n hook within LiveI18nProvider instead.');
   return undefined;
 }
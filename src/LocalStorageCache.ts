@@ -1,35 +1,46 @@
 import { LRUCache, DEFAULT_CACHE_SIZE } from './LRUCache';
+import { logger as defaultLogger, type Logger } from './logger';
+import type { CacheStats, CacheEntry, CacheEntryMeta, TranslationCacheAdapter } from './types';
 
 interface CacheItem {
   value: string;
   timestamp: number;
+  locale?: string;
+  confidence?: number;
+  /** Overrides the cache TTL */
+  ttl?: number;
 }
 
 /**
  * Hybrid cache that combines fast in-memory LRU cache with localStorage persistence
  * Optimized for React web applications that support localStorage
  */
-export class LocalStorageCache {
+export class LocalStorageCache implements TranslationCacheAdapter {
   private memoryCache: LRUCache<string, string>;
   private localStorage: Storage | null;
   private ttl: number;
+  private staleWindow: number;
   private storagePrefix = 'livei18n_cache_';
+  private expired = 0;
+  private logger: Logger;
 
-  constructor(maxMemorySize: number = DEFAULT_CACHE_SIZE, ttlHours: number = 1) {
+  constructor(maxMemorySize: number = DEFAULT_CACHE_SIZE, ttlHours: number = 1, staleHours: number = 0, logger: Logger = defaultLogger) {
+    this.logger = logger;
     this.ttl = ttlHours * 60 * 60 * 1000; // Convert to milliseconds
-    this.memoryCache = new LRUCache(maxMemorySize, ttlHours);
+    this.staleWindow = staleHours * 60 * 60 * 1000;
+    this.memoryCache = new LRUCache(maxMemorySize, ttlHours, staleHours);
     
     try {
       // Check if localStorage is available
       if (typeof window !== 'undefined' && window.localStorage) {
         this.localStorage = window.localStorage;
-        console.log('LiveI18n: localStorage persistent cache initialized');
+        this.logger.log('LiveI18n: localStorage persistent cache initialized');
       } else {
         this.localStorage = null;
-        console.warn('LiveI18n: localStorage not available, falling back to memory-only cache');
+        this.logger.warn('LiveI18n: localStorage not available, falling back to memory-only cache');
       }
     } catch (error) {
-      console.warn('LiveI18n: localStorage access failed, falling back to memory-only cache');
+      this.logger.warn('LiveI18n: localStorage access failed, falling back to memory-only cache');
       this.localStorage = null;
     }
   }
@@ -42,57 +53,80 @@ export class LocalStorageCache {
       try {
         this.localStorage.removeItem(this.storagePrefix + evictedKey);
       } catch (error) {
-        console.warn('LiveI18n: Error removing evicted key from localStorage:', error);
+        this.logger.warn('LiveI18n: Error removing evicted key from localStorage:', error);
       }
     }
   };
 
+  private toMeta(item: CacheItem): CacheEntryMeta {
+    return { locale: item.locale, confidence: item.confidence, ttl: item.ttl };
+  }
+
   get(key: string): string | undefined {
+    const entry = this.getEntry(key);
+    return entry && !entry.stale ? entry.value : undefined;
+  }
+
+  /**
+   * Get an entry including stale ones (past the TTL, inside the stale window)
+   */
+  getEntry(key: string): CacheEntry | undefined {
     // First, try memory cache (fastest) - LRUCache handles TTL internally
-    const memoryResult = this.memoryCache.get(key);
-    if (memoryResult) {
-      return memoryResult;
+    const memoryEntry = this.memoryCache.getEntry(key);
+    if (memoryEntry && !memoryEntry.stale) {
+      return memoryEntry;
     }
 
-    // Try localStorage (synchronous in browsers)
+    // Try localStorage (synchronous in browsers), it may hold a fresher copy
     if (this.localStorage) {
       try {
         const persistentData = this.localStorage.getItem(this.storagePrefix + key);
         if (persistentData) {
           const item: CacheItem = JSON.parse(persistentData);
+          const age = Date.now() - item.timestamp;
+          const ttl = item.ttl ?? this.ttl;
           
-          // Check if item has expired
-          if (Date.now() - item.timestamp > this.ttl) {
+          // Check if item has expired beyond the stale window
+          if (age > ttl + this.staleWindow) {
             this.localStorage.removeItem(this.storagePrefix + key);
+            this.expired++;
             return undefined;
           }
 
+          // Stale items are served but not promoted, they'd look fresh in memory
+          if (age > ttl) {
+            return { value: item.value, stale: true, locale: item.locale, confidence: item.confidence, layer: 'persistent' };
+          }
+
           // Put in memory cache for faster future access - LRUCache handles its own TTL
-          this.memoryCache.set(key, item.value, this.onEvict);
-          return item.value;
+          this.memoryCache.set(key, item.value, this.toMeta(item), this.onEvict);
+          return { value: item.value, stale: false, locale: item.locale, confidence: item.confidence, layer: 'persistent' };
         }
       } catch (error) {
-        console.warn('LiveI18n: Error reading from localStorage cache:', error);
+        this.logger.warn('LiveI18n: Error reading from localStorage cache:', error);
       }
     }
 
-    return undefined;
+    return memoryEntry;
   }
 
-  set(key: string, value: string): void {
+  set(key: string, value: string, meta?: CacheEntryMeta): void {
     // Store in memory cache with eviction callback to keep localStorage in sync
-    this.memoryCache.set(key, value, this.onEvict);
+    this.memoryCache.set(key, value, meta, this.onEvict);
 
     // Also store in localStorage for persistence with our own TTL management
     if (this.localStorage) {
       try {
         const item: CacheItem = {
           value,
-          timestamp: Date.now()
+          timestamp: Date.now(),
+          locale: meta?.locale,
+          confidence: meta?.confidence,
+          ttl: meta?.ttl
         };
         this.localStorage.setItem(this.storagePrefix + key, JSON.stringify(item));
       } catch (error) {
-        console.warn('LiveI18n: Error writing to localStorage cache:', error);
+        this.logger.warn('LiveI18n: Error writing to localStorage cache:', error);
         
         // If quota exceeded, try to clear some old items
         if (error instanceof DOMException && error.code === DOMException.QUOTA_EXCEEDED_ERR) {
@@ -102,6 +136,18 @@ export class LocalStorageCache {
     }
   }
 
+  delete(key: string): void {
+    this.memoryCache.delete(key);
+
+    if (this.localStorage) {
+      try {
+        this.localStorage.removeItem(this.storagePrefix + key);
+      } catch (error) {
+        this.logger.warn('LiveI18n: Error removing key from localStorage cache:', error);
+      }
+    }
+  }
+
   clear(): void {
     // Clear memory cache
     this.memoryCache.clear();
@@ -113,9 +159,76 @@ export class LocalStorageCache {
         const cacheKeys = keys.filter(key => key.startsWith(this.storagePrefix));
         cacheKeys.forEach(key => this.localStorage!.removeItem(key));
       } catch (error) {
-        console.warn('LiveI18n: Error clearing localStorage cache:', error);
+        this.logger.warn('LiveI18n: Error clearing localStorage cache:', error);
+      }
+    }
+  }
+
+  /**
+   * Get keys from both layers, persistent entries may include expired ones
+   */
+  keys(): string[] {
+    const keys = new Set(this.memoryCache.keys());
+
+    if (this.localStorage) {
+      try {
+        Object.keys(this.localStorage)
+          .filter(key => key.startsWith(this.storagePrefix))
+          .forEach(key => keys.add(key.substring(this.storagePrefix.length)));
+      } catch (error) {
+        this.logger.warn('LiveI18n: Error reading keys from localStorage cache:', error);
       }
     }
+
+    return Array.from(keys);
+  }
+
+  /**
+   * Memory stats, plus entry count, size and locales of the persisted entries
+   * Persisted entries may include expired ones that haven't been read since
+   */
+  stats(): CacheStats {
+    const memoryStats = this.memoryCache.stats();
+    if (!this.localStorage) return memoryStats;
+
+    const locales: Record<string, number> = {};
+    let persistentSize = 0;
+    let persistentBytes = 0;
+
+    try {
+      for (const fullKey of Object.keys(this.localStorage)) {
+        if (!fullKey.startsWith(this.storagePrefix)) continue;
+        const data = this.localStorage.getItem(fullKey) || '';
+        persistentSize++;
+        // localStorage stores UTF-16, two bytes per character
+        persistentBytes += (fullKey.length + data.length) * 2;
+        try {
+          const item: CacheItem = JSON.parse(data);
+          if (item.locale) {
+            locales[item.locale] = (locales[item.locale] || 0) + 1;
+          }
+        } catch (error) {
+          // Invalid rows are removed by the next sweep
+        }
+      }
+    } catch (error) {
+      this.logger.warn('LiveI18n: Error reading localStorage cache stats:', error);
+      return memoryStats;
+    }
+
+    return {
+      ...memoryStats,
+      // Memory expiries mirror persisted ones, count each entry once
+      expired: this.expired,
+      persistentSize,
+      persistentBytes,
+      locales
+    };
+  }
+
+  resetStats(): void {
+    this.memoryCache.resetStats();
+    this.expired = 0;
   }
 
   size(): number {
@@ -159,12 +272,14 @@ export class LocalStorageCache {
               const key = fullKey.replace(this.storagePrefix, '');
               
               // Check if item has expired
-              if (now - item.timestamp <= this.ttl) {
-                this.memoryCache.set(key, item.value, this.onEvict);
+              const ttl = item.ttl ?? this.ttl;
+              if (now - item.timestamp <= ttl) {
+                this.memoryCache.set(key, item.value, this.toMeta(item), this.onEvict);
                 loaded++;
-              } else {
-                // Remove expired item
+              } else if (now - item.timestamp > ttl + this.staleWindow) {
+                // Remove expired item, stale ones stay in localStorage until revalidated
                 this.localStorage.removeItem(fullKey);
+                this.expired++;
               }
             }
           } catch (error) {
@@ -174,11 +289,11 @@ export class LocalStorageCache {
         }
 
         if (loaded > 0) {
-          console.log(`LiveI18n: Preloaded ${loaded} cache entries from localStorage`);
+          this.logger.log(`LiveI18n: Preloaded ${loaded} cache entries from localStorage`);
         }
       }
     } catch (error) {
-      console.warn('LiveI18n: Error preloading cache from localStorage:', error);
+      this.logger.warn('LiveI18n: Error preloading cache from localStorage:', error);
     }
   }
 
@@ -199,7 +314,7 @@ export class LocalStorageCache {
           const data = this.localStorage.getItem(fullKey);
           if (data) {
             const item: CacheItem = JSON.parse(data);
-            if (now - item.timestamp > this.ttl) {
+            if (now - item.timestamp > (item.ttl ?? this.ttl) + this.staleWindow) {
               this.localStorage.removeItem(fullKey);
               cleared++;
             }
@@ -211,11 +326,12 @@ export class LocalStorageCache {
         }
       }
 
+      this.expired += cleared;
       if (cleared > 0) {
-        console.log(`LiveI18n: Cleared ${cleared} expired cache entries from localStorage`);
+        this.logger.log(`LiveI18n: Cleared ${cleared} expired cache entries from localStorage`);
       }
     } catch (error) {
-      console.warn('LiveI18n: Error clearing expired cache items:', error);
+      this.logger.warn('LiveI18n: Error clearing expired cache items:', error);
     }
   }
 
@@ -0,0 +1,50 @@
+import type { BatchTranslationRequest } from './types';
+
+export const DEFAULT_BATCHING = {
+  maxItems: 10,
+  flushMs: 50,
+  maxPayloadBytes: 100000,
+  // Browsers open about 6 connections per host
+  maxConcurrentBatches: 6
+};
+
+export type BatchLimits = Pick<typeof DEFAULT_BATCHING, 'maxItems' | 'maxPayloadBytes'>;
+
+/**
+ * Size of a string in bytes once UTF-8 encoded
+ */
+function byteLength(text: string): number {
+  return typeof TextEncoder !== 'undefined' ? new TextEncoder().encode(text).length : text.length;
+}
+
+/**
+ * Split items into batches of at most maxItems, keeping each batch request under maxPayloadBytes
+ * An item that's over the byte limit on its own is sent in a batch by itself
+ */
+export function splitIntoBatches<T>(items: T[], toRequest: (item: T) => BatchTranslationRequest, limits: BatchLimits): T[][] {
+  const envelopeBytes = byteLength(JSON.stringify({ requests: [] }));
+  const batches: T[][] = [];
+  let batch: T[] = [];
+  let batchBytes = envelopeBytes;
+
+  for (const item of items) {
+    // +1 for the separating comma
+    const itemBytes = byteLength(JSON.stringify(toRequest(item))) + 1;
+    const full = batch.length >= limits.maxItems
+      || batchBytes + itemBytes > limits.maxPayloadBytes;
+
+    if (batch.length > 0 && full) {
+      batches.push(batch);
+      batch = [];
+      batchBytes = envelopeBytes;
+    }
+
+    batch.push(item);
+    batchBytes += itemBytes;
+  }
+
+  if (batch.length > 0) {
+    batches.push(batch);
+  }
+  return batches;
+}
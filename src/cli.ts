@@ -0,0 +1,92 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { extractMessages, buildBundles } from './extract';
+
+const USAGE = `Usage: livei18n extract [options]
+
+Scan sources for <LiveText> children and useLiveText()/translate() literals,
+translate them and write one JSON bundle per locale.
+
+Options:
+  --src <dirs>          Comma-separated source directories (default: src)
+  --out <dir>           Output directory for <locale>.json bundles (default: translations)
+  --locales <locales>   Comma-separated target locales, e.g. es-ES,fr-FR (required)
+  --api-key <key>       API key (default: $LIVEI18N_API_KEY)
+  --customer-id <id>    Customer ID (default: $LIVEI18N_CUSTOMER_ID)
+  --endpoint <url>      API endpoint (default: $LIVEI18N_ENDPOINT or https://api.livei18n.com)
+  --dry-run             Only list extracted strings, don't call the API
+  --help                Show this message
+`;
+
+function parseArgs(argv: string[]): Record<string, string | boolean> {
+  const args: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+
+    const [name, inlineValue] = arg.slice(2).split('=', 2);
+    if (inlineValue !== undefined) {
+      args[name] = inlineValue;
+    } else if (argv[i + 1] !== undefined && !argv[i + 1].startsWith('--')) {
+      args[name] = argv[++i];
+    } else {
+      args[name] = true;
+    }
+  }
+  return args;
+}
+
+function list(value: string | boolean | undefined, fallback: string[] = []): string[] {
+  if (typeof value !== 'string') return fallback;
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+async function main(): Promise<number> {
+  const [command, ...rest] = process.argv.slice(2);
+  const args = parseArgs(rest);
+
+  if (command !== 'extract' || args.help) {
+    console.log(USAGE);
+    return args.help ? 0 : 1;
+  }
+
+  const srcDirs = list(args.src, ['src']);
+  const messages = extractMessages(srcDirs);
+  console.log(`LiveI18n: Extracted ${messages.length} strings from ${srcDirs.join(', ')}`);
+
+  if (args['dry-run']) {
+    messages.forEach(m => console.log(`  ${m.file}:${m.line}  ${JSON.stringify(m.text)}`));
+    return 0;
+  }
+
+  const locales = list(args.locales);
+  const apiKey = typeof args['api-key'] === 'string' ? args['api-key'] : process.env.LIVEI18N_API_KEY;
+  const customerId = typeof args['customer-id'] === 'string' ? args['customer-id'] : process.env.LIVEI18N_CUSTOMER_ID;
+  const endpoint = typeof args.endpoint === 'string' ? args.endpoint : process.env.LIVEI18N_ENDPOINT;
+
+  if (locales.length === 0 || !apiKey || !customerId) {
+    console.error('LiveI18n: --locales, an API key and a customer ID are required\n');
+    console.log(USAGE);
+    return 1;
+  }
+
+  const outDir = typeof args.out === 'string' ? args.out : 'translations';
+  fs.mkdirSync(outDir, { recursive: true });
+
+  const bundles = await buildBundles(messages, { apiKey, customerId, endpoint, locales });
+  for (const bundle of bundles) {
+    const file = path.join(outDir, `${bundle.locale}.json`);
+    fs.writeFileSync(file, JSON.stringify(bundle, null, 2) + '\n');
+    console.log(`LiveI18n: Wrote ${Object.keys(bundle.entries).length} translations to ${file}`);
+  }
+
+  return 0;
+}
+
+main().then(
+  code => process.exit(code),
+  error => {
+    console.error('LiveI18n: Extraction failed:', error);
+    process.exit(1);
+  }
+);
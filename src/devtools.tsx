@@ -0,0 +1,201 @@
+import React, { useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { LiveI18nContext } from './LiveText';
+import type { LiveTextOptions, TranslationDetails } from './types';
+
+export interface LiveI18nDevtoolsProps {
+  /** Render nothing and stop inspecting when false, e.g. in production (default: true) */
+  enabled?: boolean;
+  /** Outline every rendered LiveText (default: true) */
+  highlight?: boolean;
+}
+
+interface Inspected {
+  element: Element;
+  details: TranslationDetails;
+}
+
+const STRING_SELECTOR = '[data-livei18n]';
+
+const HIGHLIGHT_STYLES = `
+${STRING_SELECTOR} { outline: 1px dashed rgba(99, 102, 241, 0.6); outline-offset: 1px; }
+${STRING_SELECTOR}:hover { outline: 2px solid rgb(99, 102, 241); }
+`;
+
+const panelStyle: React.CSSProperties = {
+  position: 'fixed',
+  zIndex: 2147483647,
+  maxWidth: 420,
+  padding: '8px 10px',
+  borderRadius: 6,
+  background: '#1e1e2e',
+  color: '#f5f5f5',
+  font: '12px/1.5 ui-monospace, SFMono-Regular, Menlo, monospace',
+  boxShadow: '0 4px 16px rgba(0, 0, 0, 0.3)'
+};
+
+const labelStyle: React.CSSProperties = { color: '#a5b4fc', paddingRight: 8, verticalAlign: 'top', whiteSpace: 'nowrap' };
+
+const buttonStyle: React.CSSProperties = {
+  marginTop: 6,
+  marginRight: 6,
+  padding: '2px 8px',
+  border: '1px solid #a5b4fc',
+  borderRadius: 4,
+  background: 'transparent',
+  color: 'inherit',
+  font: 'inherit',
+  cursor: 'pointer'
+};
+
+/**
+ * Read the text and options LiveText rendered into its data attributes
+ */
+function readOptions(element: Element): { text: string; options: LiveTextOptions } {
+  return {
+    text: element.getAttribute('data-livei18n-text') || '',
+    options: {
+      tone: element.getAttribute('data-livei18n-tone') || undefined,
+      context: element.getAttribute('data-livei18n-context') || undefined,
+      language: element.getAttribute('data-livei18n-language') || undefined
+    }
+  };
+}
+
+function describeOrigin(details: TranslationDetails): string {
+  if (!details.origin) return 'not cached';
+  const origin = details.origin === 'api' ? 'API' : details.origin;
+  return details.stale ? `${origin} (stale)` : origin;
+}
+
+/**
+ * In-context overlay for inspecting translations
+ * Outlines every rendered LiveText; hovering one shows its source and translated text,
+ * locale, tone, context, cache key, where the translation came from and its confidence,
+ * with buttons to re-translate it bypassing the cache and to suggest a correction
+ *
+ * Must be used within LiveI18nProvider. Mount it early so translations fetched during
+ * startup are recorded with their confidence
+ *
+ * @example
+ * ```tsx
+ * <LiveI18nProvider config={config}>
+ *   <App />
+ *   <LiveI18nDevtools enabled={process.env.NODE_ENV !== 'production'} />
+ * </LiveI18nProvider>
+ * ```
+ */
+export const LiveI18nDevtools: React.FC<LiveI18nDevtoolsProps> = ({ enabled = true, highlight = true }) => {
+  const { instance } = useContext(LiveI18nContext);
+  if (!instance) {
+    throw new Error('LiveI18nDevtools must be used within LiveI18nProvider');
+  }
+
+  const [inspected, setInspected] = useState<Inspected | null>(null);
+  const [retranslating, setRetranslating] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    return instance.enableInspector();
+  }, [instance, enabled]);
+
+  // The panel stays open until another string is hovered, so its button can be reached
+  useEffect(() => {
+    if (!enabled || typeof document === 'undefined') return;
+
+    const onMouseOver = (event: MouseEvent) => {
+      const target = event.target as Element | null;
+      if (!target || panelRef.current?.contains(target)) return;
+
+      const element = target.closest(STRING_SELECTOR);
+      if (!element) return;
+
+      const { text, options } = readOptions(element);
+      setInspected(current => current?.element === element
+        ? current
+        : { element, details: instance.getTranslationDetails(text, options) });
+    };
+
+    document.addEventListener('mouseover', onMouseOver);
+    return () => document.removeEventListener('mouseover', onMouseOver);
+  }, [instance, enabled]);
+
+  const retranslate = useCallback(() => {
+    if (!inspected) return;
+    const { text, options } = readOptions(inspected.element);
+
+    setRetranslating(true);
+    instance.retranslate(text, options)
+      .catch(error => {
+        instance.getLogger().error('LiveI18nDevtools: Re-translation failed:', error);
+      })
+      .then(() => {
+        setRetranslating(false);
+        setInspected(current => current && { ...current, details: instance.getTranslationDetails(text, options) });
+      });
+  }, [instance, inspected]);
+
+  const suggestCorrection = useCallback(() => {
+    if (!inspected || typeof window === 'undefined') return;
+    const { text, options } = readOptions(inspected.element);
+
+    const suggested = window.prompt('Corrected translation', inspected.details.translated ?? text);
+    if (suggested === null || suggested === inspected.details.translated) return;
+    const reason = window.prompt('Reason (optional)') || undefined;
+
+    instance.submitCorrection({ text, options, suggested, reason })
+      .catch(error => {
+        instance.getLogger().error('LiveI18nDevtools: Submitting the correction failed:', error);
+      })
+      .then(() => {
+        setInspected(current => current && { ...current, details: instance.getTranslationDetails(text, options) });
+      });
+  }, [instance, inspected]);
+
+  if (!enabled) return null;
+
+  const rect = inspected?.element.isConnected ? inspected.element.getBoundingClientRect() : null;
+  const details = inspected?.details;
+
+  return (
+    <>
+      {highlight && <style>{HIGHLIGHT_STYLES}</style>}
+      {rect && details && (
+        <div
+          ref={panelRef}
+          data-livei18n-devtools=""
+          style={{ ...panelStyle, top: Math.min(rect.bottom + 4, window.innerHeight - 200), left: Math.max(rect.left, 4) }}
+        >
+          <table style={{ borderCollapse: 'collapse' }}>
+            <tbody>
+              {([
+                ['Source', details.text],
+                ['Translated', details.translated ?? '(not translated yet)'],
+                ['Locale', details.locale],
+                ['Tone', details.tone || '(none)'],
+                ['Context', details.context || '(none)'],
+                ['Cache key', details.cacheKey],
+                ['Served from', describeOrigin(details)],
+                ['Confidence', details.confidence !== undefined ? details.confidence.toFixed(2) : 'unknown']
+              ] as Array<[string, string]>).map(([label, value]) => (
+                <tr key={label}>
+                  <td style={labelStyle}>{label}</td>
+                  <td style={{ wordBreak: 'break-word' }}>{value}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <button type="button" style={buttonStyle} onClick={retranslate} disabled={retranslating}>
+            {retranslating ? 'Re-translating…' : 'Re-translate (bypass cache)'}
+          </button>
+          <button type="button" style={buttonStyle} onClick={suggestCorrection}>
+            Suggest correction
+          </button>
+          <button type="button" style={buttonStyle} onClick={() => setInspected(null)}>
+            Close
+          </button>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,333 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import ts from 'typescript';
+import { generateCacheKey } from './cacheKey';
+import { protectPlaceholders, restorePlaceholders } from './messageFormat';
+import { FetchTransport } from './transport';
+import { DEFAULT_BATCHING, splitIntoBatches } from './batching';
+import { createLogger } from './logger';
+import type { TranslationRequest, TranslationBundle, TranslationTransport } from './types';
+
+/**
+ * A translatable string found in source code
+ */
+export interface ExtractedMessage {
+  text: string;
+  tone: string;
+  context: string;
+  /** Fixed target language, if the call site sets one */
+  language?: string;
+  file: string;
+  line: number;
+}
+
+export interface BuildBundlesOptions {
+  apiKey: string;
+  customerId: string;
+  endpoint?: string;
+  locales: string[];
+  /** Network layer (default: FetchTransport for endpoint) */
+  transport?: TranslationTransport;
+}
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx'];
+const TRANSLATE_FUNCTIONS = ['useLiveText', 'translate'];
+
+// Placeholder mismatches are reported with the string they leave out of the bundle
+const quietLogger = createLogger(true);
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' '
+};
+
+/**
+ * Thrown while reading a LiveText child that can't be resolved statically
+ */
+class DynamicContentError extends Error {}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return HTML_ENTITIES[name] ?? entity;
+  });
+}
+
+/**
+ * Collapse JSX text whitespace the same way the JSX transform does, so extracted
+ * text (and its cache key) matches what LiveText sees at runtime
+ */
+function cleanJsxText(raw: string): string {
+  const lines = raw.split(/\r\n|\n|\r/);
+  let lastNonEmptyLine = 0;
+  lines.forEach((line, i) => {
+    if (/[^ \t]/.test(line)) lastNonEmptyLine = i;
+  });
+
+  let result = '';
+  lines.forEach((line, i) => {
+    let trimmed = line.replace(/\t/g, ' ');
+    if (i !== 0) trimmed = trimmed.replace(/^[ ]+/, '');
+    if (i !== lines.length - 1) trimmed = trimmed.replace(/[ ]+$/, '');
+    if (trimmed) {
+      result += i === lastNonEmptyLine ? trimmed : `${trimmed} `;
+    }
+  });
+
+  return decodeEntities(result);
+}
+
+/**
+ * Get a string from a string literal or a template without substitutions, or undefined if it isn't static
+ */
+function getStaticString(node: ts.Node | undefined): string | undefined {
+  if (!node) return undefined;
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) return node.text;
+  if (ts.isParenthesizedExpression(node)) return getStaticString(node.expression);
+  return undefined;
+}
+
+function isFragment(node: ts.JsxElement | ts.JsxSelfClosingElement): boolean {
+  const tagName = (ts.isJsxElement(node) ? node.openingElement : node).tagName.getText();
+  return tagName === 'Fragment' || tagName === 'React.Fragment';
+}
+
+/**
+ * Build the tagged template LiveText sends for a list of JSX children,
+ * numbering nested elements depth-first like extractRichContent does at runtime
+ */
+function extractJsxChildren(children: ts.NodeArray<ts.JsxChild>, counter: { next: number }): string {
+  return children.map(child => {
+    if (ts.isJsxText(child)) {
+      return cleanJsxText(child.text);
+    }
+
+    if (ts.isJsxExpression(child)) {
+      // {/* comments */} render nothing
+      if (!child.expression) return '';
+      // LiveText renders number children as text
+      const value = ts.isNumericLiteral(child.expression) ? child.expression.text : getStaticString(child.expression);
+      if (value === undefined) throw new DynamicContentError(child.getText());
+      return value;
+    }
+
+    if (ts.isJsxFragment(child)) {
+      return extractJsxChildren(child.children, counter);
+    }
+
+    if (ts.isJsxSelfClosingElement(child)) {
+      if (isFragment(child)) return '';
+      return `<${counter.next++}/>`;
+    }
+
+    if (ts.isJsxElement(child)) {
+      if (isFragment(child)) return extractJsxChildren(child.children, counter);
+      const index = counter.next++;
+      const inner = extractJsxChildren(child.children, counter);
+      // Whitespace-only lines and empty {} expressions don't produce children
+      const hasChildren = child.children.some(c =>
+        ts.isJsxText(c) ? cleanJsxText(c.text) !== '' : !(ts.isJsxExpression(c) && !c.expression)
+      );
+      return hasChildren ? `<${index}>${inner}</${index}>` : `<${index}/>`;
+    }
+
+    throw new DynamicContentError((child as ts.Node).getText());
+  }).join('');
+}
+
+function getJsxAttribute(element: ts.JsxOpeningLikeElement, name: string): string | undefined {
+  for (const property of element.attributes.properties) {
+    if (ts.isJsxAttribute(property) && property.name.getText() === name) {
+      const initializer = property.initializer;
+      if (initializer && ts.isJsxExpression(initializer)) return getStaticString(initializer.expression);
+      return getStaticString(initializer);
+    }
+  }
+  return undefined;
+}
+
+function getObjectProperty(node: ts.Expression | undefined, name: string): string | undefined {
+  if (!node || !ts.isObjectLiteralExpression(node)) return undefined;
+  for (const property of node.properties) {
+    if (ts.isPropertyAssignment(property) && property.name.getText().replace(/['"]/g, '') === name) {
+      return getStaticString(property.initializer);
+    }
+  }
+  return undefined;
+}
+
+function isNewLiveI18n(node: ts.Expression): boolean {
+  return ts.isNewExpression(node) && ts.isIdentifier(node.expression) && node.expression.text === 'LiveI18n';
+}
+
+/**
+ * Names of variables holding a LiveI18n instance, e.g. `const i18n = new LiveI18n(config)`
+ */
+function findLiveI18nVariables(sourceFile: ts.SourceFile): Set<string> {
+  const names = new Set<string>();
+  const visit = (node: ts.Node) => {
+    if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer && isNewLiveI18n(node.initializer)) {
+      names.add(node.name.text);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return names;
+}
+
+/**
+ * Whether a call is a bare useLiveText()/translate() call, or translate() on a LiveI18n instance
+ * Other methods named translate (i18next, DOM geometry helpers) aren't ours
+ */
+function isTranslateCall(call: ts.CallExpression, instances: Set<string>): boolean {
+  const callee = call.expression;
+  if (ts.isIdentifier(callee)) return TRANSLATE_FUNCTIONS.includes(callee.text);
+  if (!ts.isPropertyAccessExpression(callee) || callee.name.text !== 'translate') return false;
+  const receiver = callee.expression;
+  return isNewLiveI18n(receiver) || (ts.isIdentifier(receiver) && instances.has(receiver.text));
+}
+
+/**
+ * Extract translatable strings from a single source file
+ */
+export function extractFromSource(fileName: string, source: string): ExtractedMessage[] {
+  const sourceFile = ts.createSourceFile(fileName, source, ts.ScriptTarget.Latest, true,
+    fileName.endsWith('x') ? ts.ScriptKind.TSX : ts.ScriptKind.TS);
+  const messages: ExtractedMessage[] = [];
+  const instances = findLiveI18nVariables(sourceFile);
+
+  const add = (node: ts.Node, text: string, tone?: string, context?: string, language?: string) => {
+    if (!text.trim()) return;
+    messages.push({
+      text,
+      tone: (tone || '').substring(0, 50),
+      context: (context || '').substring(0, 500),
+      language,
+      file: fileName,
+      line: sourceFile.getLineAndCharacterOfPosition(node.getStart()).line + 1
+    });
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isJsxElement(node) && node.openingElement.tagName.getText() === 'LiveText') {
+      const attributes = node.openingElement;
+      try {
+        const text = extractJsxChildren(node.children, { next: 0 });
+        add(node, text, getJsxAttribute(attributes, 'tone'), getJsxAttribute(attributes, 'context'), getJsxAttribute(attributes, 'language'));
+      } catch (error) {
+        if (!(error instanceof DynamicContentError)) throw error;
+        const { line } = sourceFile.getLineAndCharacterOfPosition(node.getStart());
+        console.warn(`LiveI18n: Skipping LiveText with dynamic content at ${fileName}:${line + 1} (${error.message}), use the values prop instead`);
+      }
+    }
+
+    if (ts.isCallExpression(node) && isTranslateCall(node, instances)) {
+      const text = getStaticString(node.arguments[0]);
+      if (text !== undefined) {
+        const options = node.arguments[1];
+        add(node, text, getObjectProperty(options, 'tone'), getObjectProperty(options, 'context'), getObjectProperty(options, 'language'));
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return messages;
+}
+
+function listSourceFiles(dir: string): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name !== 'node_modules' && !entry.name.startsWith('.')) {
+        files.push(...listSourceFiles(fullPath));
+      }
+    } else if (SOURCE_EXTENSIONS.includes(path.extname(entry.name)) && !entry.name.endsWith('.d.ts')) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Extract translatable strings from every source file under the given directories
+ * Identical strings (same text, tone, context and language) are returned once
+ */
+export function extractMessages(dirs: string[]): ExtractedMessage[] {
+  const seen = new Set<string>();
+  const messages: ExtractedMessage[] = [];
+
+  for (const dir of dirs) {
+    for (const file of listSourceFiles(dir)) {
+      for (const message of extractFromSource(file, fs.readFileSync(file, 'utf8'))) {
+        const id = JSON.stringify([message.text, message.tone, message.context, message.language]);
+        if (!seen.has(id)) {
+          seen.add(id);
+          messages.push(message);
+        }
+      }
+    }
+  }
+
+  return messages;
+}
+
+/**
+ * Translate extracted strings into one bundle per locale, using the same cache keys as the runtime SDK
+ * Requests are split into batches with the runtime's maxItems and maxPayloadBytes limits. Strings
+ * whose batch fails, or whose translation doesn't keep the source placeholders, are left out
+ */
+export async function buildBundles(messages: ExtractedMessage[], options: BuildBundlesOptions): Promise<TranslationBundle[]> {
+  const transport = options.transport || new FetchTransport(options);
+  const bundles: TranslationBundle[] = [];
+
+  for (const locale of options.locales) {
+    // Strings pinned to another language are never rendered in this locale
+    const localeMessages = messages.filter(m => !m.language || m.language === locale);
+    const requests: TranslationRequest[] = localeMessages.map(message => ({
+      text: protectPlaceholders(message.text).text,
+      locale,
+      tone: message.tone,
+      context: message.context,
+      cache_key: generateCacheKey(options.customerId, message.text, locale, message.context, message.tone)
+    }));
+
+    const entries: Record<string, string> = {};
+    const batches = splitIntoBatches(requests.map((request, i) => ({ request, message: localeMessages[i] })), item => item.request, DEFAULT_BATCHING);
+
+    for (let b = 0; b < batches.length; b++) {
+      const batch = batches[b];
+      let batchResponse;
+      try {
+        batchResponse = await transport.translateBatch(batch.map(item => item.request));
+      } catch (error) {
+        console.warn(`LiveI18n: Batch ${b + 1}/${batches.length} for ${locale} failed, leaving out ${batch.length} strings:`, error);
+        continue;
+      }
+
+      for (const { request, message } of batch) {
+        const item = batchResponse.responses.find(r => r.cache_key === request.cache_key);
+        if (!item) {
+          console.warn(`LiveI18n: No batch response for "${message.text}" (${locale})`);
+          continue;
+        }
+
+        let mismatch = false;
+        const translated = restorePlaceholders(item.translated, message.text, () => { mismatch = true; }, quietLogger);
+        if (mismatch) {
+          console.warn(`LiveI18n: Leaving out "${message.text}" (${locale}), the translation's placeholders don't match (${request.cache_key})`);
+        } else {
+          entries[request.cache_key] = translated;
+        }
+      }
+    }
+
+    bundles.push({ locale, entries });
+  }
+
+  return bundles;
+}
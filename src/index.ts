@@ -1,22 +1,43 @@
 export { LiveText, initializeLiveI18n, useLiveI18n, getLiveI18nInstance, updateDefaultLanguage, getDefaultLanguage, LiveI18nProvider } from './LiveText';
 export type { LiveI18nProviderProps } from './LiveText';
 export { useLiveText } from './useLiveText';
-export { LiveI18n } from './LiveI18n';
+export { useLiveTextState } from './useLiveTextState';
+export { LanguageSwitcher } from './LanguageSwitcher';
+export type { LanguageSwitcherProps } from './LanguageSwitcher';
+export { useLanguageSwitcher } from './useLanguageSwitcher';
+export type { LanguageOption, UseLanguageSwitcherOptions, LanguageSwitcherState } from './useLanguageSwitcher';
+export { LiveI18nDevtools } from './devtools';
+export type { LiveI18nDevtoolsProps } from './devtools';
+export { LiveI18n, isAbortError } from './LiveI18n';
+export { TranslationError, FetchTransport, MockTransport } from './transport';
+export type { FetchTransportOptions, MockTransportOptions, MockTransportCall } from './transport';
 export { LRUCache } from './LRUCache';
 export { LocalStorageCache } from './LocalStorageCache';
+export { IndexedDBCache } from './IndexedDBCache';
 export { generateCacheKey } from './cacheKey';
 export { generateLoadingText } from './loadingIndicator';
+export { pseudoLocalize, isPseudoLocale } from './pseudoLocale';
+export type { PseudoLocale } from './pseudoLocale';
+export { getFallbackChain, parentLocale } from './localeFallback';
+export type { FallbackLocales } from './localeFallback';
+export { negotiateLocale, parseAcceptLanguage } from './localeNegotiation';
+export { createLanguageStore, readCookie } from './languagePersistence';
+export type { LanguagePersistence, LanguageStore, LocalStoragePersistence, CookiePersistence, QueryPersistence, PathPersistence } from './languagePersistence';
+export { renderWithTranslations, serializeDehydratedState } from './server';
+export type { RenderWithTranslationsOptions, RenderWithTranslationsResult } from './server';
 export type { LoadingPattern } from './loadingIndicator';
-export type { LiveTextOptions, LiveI18nConfig, TranslationResponse, SupportedLanguage, SupportedLanguagesResponse } from './types';
+export type { MessageValues } from './messageFormat';
+export type { LiveTextOptions, TranslateOptions, TranslationPriority, TranslationResult, LowConfidencePolicy, LiveTextState, LiveTextStatus, LiveI18nConfig, TranslationTransport, TranslationRequest, TranslationResponse, CorrectionRequest, TranslationCorrection, SupportedLanguage, SupportedLanguagesResponse, DehydratedTranslations, DehydratedEntry, TranslationCacheAdapter, CacheEntry, CacheEntryMeta, CacheLayer, TranslationOrigin, TranslationDetails, CacheStats, LiveI18nCacheStats, MaybePromise, TranslationBundle, TranslationBundleSource, LiveI18nEvent, LiveI18nEventMap, LiveI18nEventHandler } from './types';
 
 import type { LiveTextOptions } from './types';
+import { logger } from './logger';
 
 // Direct translate function for convenience
 export async function translate(text: string, options?: LiveTextOptions): Promise<string> {
   const { getLiveI18nInstance } = await import('./LiveText');
   const instance = getLiveI18nInstance();
   if (!instance) {
-    console.warn('LiveI18n not initialized, returning original text');
+    logger.warn('LiveI18n not initialized, returning original text');
     return text;
   }
   return instance.translate(text, options);
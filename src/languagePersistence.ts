@@ -0,0 +1,267 @@
+import { logger as defaultLogger, type Logger } from './logger';
+
+/**
+ * Where the user's chosen language is saved
+ */
+export interface LanguageStore {
+  /** Read the saved language, undefined when there is none */
+  get(): string | undefined;
+  /** Save the language, or remove it when undefined (auto-detect) */
+  set(language: string | undefined): void;
+  /** Call listener when another tab changes the language, returns an unsubscribe function */
+  subscribe?(listener: (language: string | undefined) => void): () => void;
+}
+
+export interface LocalStoragePersistence {
+  type: 'localStorage';
+  /** Storage key (default: 'livei18n_language') */
+  key?: string;
+}
+
+export interface CookiePersistence {
+  type: 'cookie';
+  /** Cookie name (default: 'livei18n_language') */
+  name?: string;
+  /** Cookie lifetime in days (default: 365) */
+  maxAgeDays?: number;
+  domain?: string;
+  /** Cookie path (default: '/') */
+  path?: string;
+  /** Cookie header of the request, read when rendering on the server */
+  cookieHeader?: string;
+}
+
+export interface QueryPersistence {
+  type: 'query';
+  /** Query parameter (default: 'lang') */
+  param?: string;
+  /** URL of the request, read when rendering on the server */
+  url?: string;
+}
+
+export interface PathPersistence {
+  type: 'path';
+  /** Index of the path segment holding the language, e.g. 0 for /de-DE/products (default: 0) */
+  segment?: number;
+  /** URL of the request, read when rendering on the server */
+  url?: string;
+}
+
+/**
+ * How LiveI18n saves the language chosen with updateDefaultLanguage()
+ * A mode name uses its defaults, an object configures it, or pass your own get/set pair
+ */
+export type LanguagePersistence =
+  | 'localStorage'
+  | 'cookie'
+  | 'query'
+  | 'path'
+  | LocalStoragePersistence
+  | CookiePersistence
+  | QueryPersistence
+  | PathPersistence
+  | LanguageStore;
+
+const DEFAULT_KEY = 'livei18n_language';
+const DEFAULT_QUERY_PARAM = 'lang';
+const CHANNEL_NAME = 'livei18n_language';
+
+// Path segments that look like a language tag (de, de-DE, zh-Hant-TW), so /products isn't read as one.
+// Three-letter languages need a subtag, otherwise /app or /faq would match
+const LOCALE_SEGMENT = /^([a-z]{2}(-[a-z0-9]{2,8})*|[a-z]{3}(-[a-z0-9]{2,8})+)$/i;
+
+/**
+ * The language in a path segment: a valid BCP 47 tag that, when the locales are known, is one of them
+ * Returned in the list's spelling, or canonicalized (de-de → de-DE) without a list
+ */
+function readLocaleSegment(segment: string, locales: readonly string[] | undefined): string | undefined {
+  if (!LOCALE_SEGMENT.test(segment)) return undefined;
+  let canonical: string;
+  try {
+    [canonical] = Intl.getCanonicalLocales(segment);
+  } catch (error) {
+    return undefined;
+  }
+  if (!locales) return canonical;
+  const lower = segment.toLowerCase();
+  return locales.find(locale => locale.toLowerCase() === lower);
+}
+
+/**
+ * Notify other tabs of changes for stores without a storage event, when BroadcastChannel is available
+ */
+function createBroadcast(): Pick<LanguageStore, 'subscribe'> & { post(language: string | undefined): void } {
+  let channel: BroadcastChannel | null = null;
+  const getChannel = () => {
+    if (!channel && typeof BroadcastChannel !== 'undefined') {
+      channel = new BroadcastChannel(CHANNEL_NAME);
+    }
+    return channel;
+  };
+
+  return {
+    post: language => getChannel()?.postMessage({ language: language ?? null }),
+    subscribe: listener => {
+      if (typeof BroadcastChannel === 'undefined') return () => {};
+      // A channel doesn't receive its own messages, so listen on a separate one
+      const listening = new BroadcastChannel(CHANNEL_NAME);
+      listening.onmessage = event => listener(event.data?.language ?? undefined);
+      return () => listening.close();
+    }
+  };
+}
+
+function localStorageStore(key: string, logger: Logger): LanguageStore {
+  return {
+    get: () => {
+      try {
+        return typeof localStorage !== 'undefined' ? localStorage.getItem(key) ?? undefined : undefined;
+      } catch (error) {
+        logger.warn('LiveI18n: Could not read the saved language from localStorage');
+        return undefined;
+      }
+    },
+    set: language => {
+      try {
+        if (typeof localStorage === 'undefined') return;
+        if (language) {
+          localStorage.setItem(key, language);
+        } else {
+          localStorage.removeItem(key);
+        }
+      } catch (error) {
+        logger.warn('LiveI18n: Could not save the language to localStorage');
+      }
+    },
+    // Other tabs get a storage event for every change
+    subscribe: listener => {
+      if (typeof window === 'undefined') return () => {};
+      const onStorage = (event: StorageEvent) => {
+        if (event.key === key) listener(event.newValue ?? undefined);
+      };
+      window.addEventListener('storage', onStorage);
+      return () => window.removeEventListener('storage', onStorage);
+    }
+  };
+}
+
+/**
+ * Read a cookie from a Cookie header or document.cookie
+ */
+export function readCookie(cookies: string, name: string): string | undefined {
+  for (const cookie of cookies.split(';')) {
+    const [cookieName, ...value] = cookie.trim().split('=');
+    if (cookieName === name) {
+      try {
+        return decodeURIComponent(value.join('=')) || undefined;
+      } catch (error) {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+function cookieStore(options: CookiePersistence): LanguageStore {
+  const name = options.name || DEFAULT_KEY;
+  const broadcast = createBroadcast();
+
+  return {
+    get: () => {
+      const cookies = typeof document !== 'undefined' ? document.cookie : options.cookieHeader;
+      return cookies ? readCookie(cookies, name) : undefined;
+    },
+    set: language => {
+      if (typeof document === 'undefined') return;
+      const attributes = [
+        `path=${options.path || '/'}`,
+        `max-age=${language ? Math.round((options.maxAgeDays ?? 365) * 24 * 60 * 60) : 0}`,
+        'samesite=lax',
+        options.domain ? `domain=${options.domain}` : ''
+      ].filter(Boolean).join('; ');
+      document.cookie = `${name}=${encodeURIComponent(language || '')}; ${attributes}`;
+      broadcast.post(language);
+    },
+    subscribe: broadcast.subscribe
+  };
+}
+
+/**
+ * The current URL, or the request URL on the server
+ */
+function currentUrl(serverUrl: string | undefined): URL | undefined {
+  if (typeof window !== 'undefined' && window.location) return new URL(window.location.href);
+  // Relative request URLs (req.url) only need a placeholder origin
+  return serverUrl ? new URL(serverUrl, 'http://localhost') : undefined;
+}
+
+function replaceUrl(url: URL): void {
+  if (typeof window === 'undefined' || !window.history) return;
+  window.history.replaceState(window.history.state, '', url.toString());
+}
+
+function queryStore(options: QueryPersistence): LanguageStore {
+  const param = options.param || DEFAULT_QUERY_PARAM;
+
+  return {
+    get: () => currentUrl(options.url)?.searchParams.get(param) || undefined,
+    set: language => {
+      const url = currentUrl(undefined);
+      if (!url) return;
+      if (language) {
+        url.searchParams.set(param, language);
+      } else {
+        url.searchParams.delete(param);
+      }
+      replaceUrl(url);
+    }
+  };
+}
+
+function pathStore(options: PathPersistence, getLocales: () => readonly string[] | undefined): LanguageStore {
+  const index = (options.segment ?? 0) + 1; // pathname starts with a slash
+
+  return {
+    get: () => {
+      const url = currentUrl(options.url);
+      const segment = url?.pathname.split('/')[index];
+      return segment ? readLocaleSegment(segment, getLocales()) : undefined;
+    },
+    set: language => {
+      const url = currentUrl(undefined);
+      if (!url) return;
+      const segments = url.pathname.split('/');
+      const hasLanguage = !!readLocaleSegment(segments[index] || '', getLocales());
+      // Replace the language segment, insert one, or drop it for auto-detect
+      segments.splice(index, hasLanguage ? 1 : 0, ...(language ? [language] : []));
+      url.pathname = segments.join('/') || '/';
+      replaceUrl(url);
+    }
+  };
+}
+
+/**
+ * Create the store for a languagePersistence option
+ * Query and path modes don't sync across tabs, each tab follows its own URL
+ *
+ * @param getLocales - Locales a path segment must be one of, e.g. allowedLocales (default: any valid language tag)
+ */
+export function createLanguageStore(
+  persistence: LanguagePersistence,
+  logger: Logger = defaultLogger,
+  getLocales: () => readonly string[] | undefined = () => undefined
+): LanguageStore {
+  const options = typeof persistence === 'string' ? { type: persistence } as Exclude<LanguagePersistence, string | LanguageStore> : persistence;
+  if (!('type' in options)) return options;
+
+  switch (options.type) {
+    case 'localStorage':
+      return localStorageStore(options.key || DEFAULT_KEY, logger);
+    case 'cookie':
+      return cookieStore(options);
+    case 'query':
+      return queryStore(options);
+    case 'path':
+      return pathStore(options, getLocales);
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Locales to try, in order, when a translation fails or is low confidence
+ * A map from locale to the locales to try next, or a function returning the whole chain.
+ * Locales without an entry fall back to their parent (es-MX → es), and every chain
+ * ends with the 'default' entry
+ *
+ * @example
+ * { 'pt-BR': 'pt-PT', default: 'en' }  // pt-BR → pt-PT → pt → en, es-MX → es → en
+ * (locale) => locale.startsWith('es-') ? ['es-ES', 'en'] : ['en']
+ */
+export type FallbackLocales = Record<string, string | string[]> | ((locale: string) => string[]);
+
+/**
+ * Get the parent of a locale by dropping its last subtag, or undefined for a bare language
+ *
+ * @example
+ * parentLocale('zh-Hant-TW') → 'zh-Hant'
+ * parentLocale('es') → undefined
+ */
+export function parentLocale(locale: string): string | undefined {
+  const index = locale.lastIndexOf('-');
+  return index > 0 ? locale.substring(0, index) : undefined;
+}
+
+function toList(locales: string | string[] | undefined): string[] {
+  if (locales === undefined) return [];
+  return Array.isArray(locales) ? locales : [locales];
+}
+
+/**
+ * Get the locales to try after a locale, in order, without the locale itself or duplicates
+ *
+ * @example
+ * getFallbackChain('es-MX', { default: 'en' }) → ['es', 'en']
+ * getFallbackChain('pt-BR', { 'pt-BR': ['pt-PT'] }) → ['pt-PT', 'pt']
+ */
+export function getFallbackChain(locale: string, fallbackLocales: FallbackLocales): string[] {
+  if (typeof fallbackLocales === 'function') {
+    return fallbackLocales(locale).filter((fallback, i, chain) => fallback !== locale && chain.indexOf(fallback) === i);
+  }
+
+  const chain: string[] = [];
+  const add = (fallback: string) => {
+    if (fallback === locale || chain.includes(fallback)) return;
+    chain.push(fallback);
+    follow(fallback);
+  };
+  // Depth-first, so a locale's own fallbacks come before its siblings'
+  const follow = (current: string) => {
+    const next = Object.prototype.hasOwnProperty.call(fallbackLocales, current)
+      ? toList(fallbackLocales[current])
+      : toList(parentLocale(current));
+    next.forEach(add);
+  };
+
+  follow(locale);
+  toList(fallbackLocales.default).forEach(add);
+  return chain;
+}
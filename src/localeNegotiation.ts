@@ -0,0 +1,73 @@
+/**
+ * Parse an Accept-Language header into locales, most preferred first
+ * Wildcards and locales with q=0 are dropped
+ *
+ * @example
+ * parseAcceptLanguage('gsw-CH, de-DE;q=0.9, en;q=0.5, *;q=0.1') → ['gsw-CH', 'de-DE', 'en']
+ */
+export function parseAcceptLanguage(header: string): string[] {
+  return header.split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.split(';').map(segment => segment.trim());
+      const q = params.find(param => param.startsWith('q='));
+      const quality = q ? parseFloat(q.substring(2)) : 1;
+      return { tag, quality: isNaN(quality) ? 0 : quality, index };
+    })
+    .filter(entry => entry.tag && entry.tag !== '*' && entry.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(entry => entry.tag);
+}
+
+/**
+ * Drop the last subtag of a language range, along with a singleton left in front of it (RFC 4647 lookup)
+ */
+function truncate(range: string): string | undefined {
+  const subtags = range.split('-');
+  subtags.pop();
+  if (subtags.length > 1 && subtags[subtags.length - 1].length === 1) {
+    subtags.pop();
+  }
+  return subtags.length > 0 ? subtags.join('-') : undefined;
+}
+
+function languageAndScript(locale: string): { language: string; script?: string } {
+  const [language, second] = locale.toLowerCase().split('-');
+  return { language, script: second?.length === 4 ? second : undefined };
+}
+
+/**
+ * Pick the best available locale for a list of preferred ones
+ * Each preferred locale is looked up with BCP 47 lookup rules (de-CH-1996 → de-CH → de), then
+ * matched by region fallback against another region of the same language (de-CH → de-DE),
+ * before moving on to the next. Matching is case-insensitive, the available spelling is returned
+ *
+ * @param requested - Preferred locales, most preferred first (navigator.languages or parseAcceptLanguage())
+ * @param available - Locales that can be served
+ * @returns The matching available locale, or undefined if nothing matches
+ *
+ * @example
+ * negotiateLocale(['gsw-CH', 'de-CH', 'en'], ['en-US', 'de-DE']) → 'de-DE'
+ */
+export function negotiateLocale(requested: readonly string[], available: readonly string[]): string | undefined {
+  const availableByKey = new Map(available.map(locale => [locale.toLowerCase(), locale]));
+
+  for (const preferred of requested) {
+    const range = preferred.trim().replace(/_/g, '-');
+    if (!range || range === '*') continue;
+
+    for (let candidate: string | undefined = range; candidate; candidate = truncate(candidate)) {
+      const match = availableByKey.get(candidate.toLowerCase());
+      if (match) return match;
+    }
+
+    // A script, when given, has to match too: zh-Hant-HK shouldn't become zh-Hans-CN
+    const { language, script } = languageAndScript(range);
+    const sibling = available.find(locale => {
+      const candidate = languageAndScript(locale);
+      return candidate.language === language && (!script || candidate.script === script);
+    });
+    if (sibling) return sibling;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,32 @@
+/**
+ * Built-in console output for warnings, errors and info logs
+ * Debug logging (config.debug) is separate and always printed when enabled
+ */
+export interface Logger {
+  log(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+}
+
+/**
+ * Create a logger, silent ones drop everything
+ * Every LiveI18n instance has its own (see the `silent` config option and getLogger())
+ */
+export function createLogger(silent = false): Logger {
+  return {
+    log: (...args) => {
+      if (!silent) console.log(...args);
+    },
+    warn: (...args) => {
+      if (!silent) console.warn(...args);
+    },
+    error: (...args) => {
+      if (!silent) console.error(...args);
+    }
+  };
+}
+
+/**
+ * Logger for code that runs without an instance, e.g. deprecated globals and the CLI
+ */
+export const logger = createLogger();
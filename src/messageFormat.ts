@@ -0,0 +1,453 @@
+import { logger as defaultLogger, type Logger } from './logger';
+
+/**
+ * Values substituted into message placeholders after translation
+ */
+export type MessageValues = Record<string, string | number>;
+
+/**
+ * A message with its placeholders replaced by positional tokens
+ */
+export interface ProtectedMessage {
+  /** Text sent to the API, e.g. "Hello {0}!" */
+  text: string;
+  /** Original placeholder names, indexed by token position */
+  names: string[];
+}
+
+type MessagePart =
+  | { type: 'text'; value: string; raw: string }
+  | { type: 'pound'; raw: string }
+  | { type: 'argument'; name: string; format?: string; style?: string; raw: string }
+  | { type: 'plural' | 'selectordinal' | 'select'; name: string; offset: number; options: MessageOption[]; raw: string };
+
+interface MessageOption {
+  key: string;
+  parts: MessagePart[];
+}
+
+class MessageSyntaxError extends Error {}
+
+/**
+ * Minimal ICU MessageFormat parser
+ * Supports {arg}, {arg, number}, {arg, plural, ...}, {arg, selectordinal, ...}, {arg, select, ...},
+ * # inside plural messages and apostrophe quoting
+ */
+class MessageParser {
+  private pos = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): MessagePart[] {
+    const parts = this.parseMessage(false);
+    if (this.pos < this.source.length) {
+      throw new MessageSyntaxError(`Unexpected "}" at position ${this.pos}`);
+    }
+    return parts;
+  }
+
+  private parseMessage(inPlural: boolean): MessagePart[] {
+    const parts: MessagePart[] = [];
+    let text = '';
+    let textStart = this.pos;
+
+    const flushText = () => {
+      if (text) {
+        parts.push({ type: 'text', value: text, raw: this.source.slice(textStart, this.pos) });
+      }
+      text = '';
+      textStart = this.pos;
+    };
+
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos];
+
+      if (char === '}') break;
+
+      if (char === '{') {
+        flushText();
+        parts.push(this.parseArgument(inPlural));
+        textStart = this.pos;
+      } else if (char === '#' && inPlural) {
+        flushText();
+        this.pos++;
+        parts.push({ type: 'pound', raw: '#' });
+        textStart = this.pos;
+      } else if (char === "'") {
+        text += this.parseApostrophe(inPlural);
+      } else {
+        text += char;
+        this.pos++;
+      }
+    }
+
+    flushText();
+    return parts;
+  }
+
+  /**
+   * Apostrophes only quote when followed by a syntax character, so "don't" stays as-is
+   */
+  private parseApostrophe(inPlural: boolean): string {
+    const next = this.source[this.pos + 1];
+
+    if (next === "'") {
+      this.pos += 2;
+      return "'";
+    }
+
+    if (next === '{' || next === '}' || (next === '#' && inPlural)) {
+      let quoted = '';
+      this.pos++;
+      while (this.pos < this.source.length) {
+        const char = this.source[this.pos];
+        if (char === "'") {
+          if (this.source[this.pos + 1] === "'") {
+            quoted += "'";
+            this.pos += 2;
+            continue;
+          }
+          this.pos++;
+          return quoted;
+        }
+        quoted += char;
+        this.pos++;
+      }
+      return quoted;
+    }
+
+    this.pos++;
+    return "'";
+  }
+
+  private parseArgument(inPlural: boolean): MessagePart {
+    const start = this.pos;
+    this.pos++; // {
+
+    const name = this.readWord();
+    if (!name) throw new MessageSyntaxError(`Missing argument name at position ${this.pos}`);
+
+    if (this.consume('}')) {
+      return { type: 'argument', name, raw: this.source.slice(start, this.pos) };
+    }
+    this.expect(',');
+
+    const format = this.readWord();
+    if (format === 'plural' || format === 'selectordinal' || format === 'select') {
+      this.expect(',');
+      const offset = format === 'select' ? 0 : this.readOffset();
+      // # refers to the nearest plural, select messages inherit it from their parent
+      const options = this.readOptions(format === 'select' ? inPlural : true);
+      return { type: format, name, offset, options, raw: this.source.slice(start, this.pos) };
+    }
+
+    if (!format) throw new MessageSyntaxError(`Missing argument type at position ${this.pos}`);
+    if (this.consume('}')) {
+      return { type: 'argument', name, format, raw: this.source.slice(start, this.pos) };
+    }
+    this.expect(',');
+
+    // Styles ({price, number, ::currency/EUR}) are kept verbatim
+    const styleStart = this.pos;
+    while (this.pos < this.source.length && this.source[this.pos] !== '}') {
+      if (this.source[this.pos] === '{') throw new MessageSyntaxError(`Unexpected "{" at position ${this.pos}`);
+      this.pos++;
+    }
+    const style = this.source.slice(styleStart, this.pos).trim();
+    this.expect('}');
+    return { type: 'argument', name, format, style, raw: this.source.slice(start, this.pos) };
+  }
+
+  private readOffset(): number {
+    this.skipWhitespace();
+    if (!this.source.startsWith('offset:', this.pos)) return 0;
+    this.pos += 'offset:'.length;
+    const value = this.readWord();
+    if (!/^\d+$/.test(value)) throw new MessageSyntaxError(`Invalid plural offset at position ${this.pos}`);
+    return parseInt(value, 10);
+  }
+
+  private readOptions(inPlural: boolean): MessageOption[] {
+    const options: MessageOption[] = [];
+
+    while (!this.consume('}')) {
+      const key = this.readWord();
+      if (!key) throw new MessageSyntaxError(`Missing selector at position ${this.pos}`);
+      this.expect('{');
+      const parts = this.parseMessage(inPlural);
+      this.expect('}');
+      options.push({ key, parts });
+    }
+
+    if (!options.some(option => option.key === 'other')) {
+      throw new MessageSyntaxError('Plural and select arguments require an "other" option');
+    }
+    return options;
+  }
+
+  private readWord(): string {
+    this.skipWhitespace();
+    const start = this.pos;
+    while (this.pos < this.source.length && !/[\s,{}]/.test(this.source[this.pos])) {
+      this.pos++;
+    }
+    return this.source.slice(start, this.pos);
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.source.length && /\s/.test(this.source[this.pos])) {
+      this.pos++;
+    }
+  }
+
+  private consume(char: string): boolean {
+    this.skipWhitespace();
+    if (this.source[this.pos] === char) {
+      this.pos++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(char: string): void {
+    if (!this.consume(char)) {
+      throw new MessageSyntaxError(`Expected "${char}" at position ${this.pos}`);
+    }
+  }
+}
+
+/**
+ * Parse a message, returning null for text that isn't valid message syntax
+ * (e.g. a stray brace), which is then treated as plain text
+ */
+function parseMessage(message: string): MessagePart[] | null {
+  if (!message.includes('{')) {
+    return [{ type: 'text', value: message, raw: message }];
+  }
+
+  try {
+    return new MessageParser(message).parse();
+  } catch (error) {
+    if (error instanceof MessageSyntaxError) return null;
+    throw error;
+  }
+}
+
+/**
+ * Serialize parts back to message syntax, renaming arguments along the way
+ */
+function printMessage(parts: MessagePart[], rename: (name: string) => string): string {
+  return parts.map(part => {
+    switch (part.type) {
+      case 'text':
+      case 'pound':
+        return part.raw;
+      case 'argument': {
+        const format = part.format ? `, ${part.format}${part.style ? `, ${part.style}` : ''}` : '';
+        return `{${rename(part.name)}${format}}`;
+      }
+      default: {
+        const offset = part.offset ? `offset:${part.offset} ` : '';
+        const options = part.options
+          .map(option => `${option.key} {${printMessage(option.parts, rename)}}`)
+          .join(' ');
+        return `{${rename(part.name)}, ${part.type}, ${offset}${options}}`;
+      }
+    }
+  }).join('');
+}
+
+/**
+ * Collect argument names in order of first appearance
+ */
+function collectNames(parts: MessagePart[], names: string[] = []): string[] {
+  for (const part of parts) {
+    if (part.type === 'text' || part.type === 'pound') continue;
+    if (!names.includes(part.name)) {
+      names.push(part.name);
+    }
+    if (part.type !== 'argument') {
+      part.options.forEach(option => collectNames(option.parts, names));
+    }
+  }
+  return names;
+}
+
+/**
+ * Replace named placeholders with positional tokens before sending text for translation
+ * Translators leave "{0}" alone far more reliably than "{name}", which tends to get translated
+ *
+ * @param names - Token order to use, e.g. the names of the source message when protecting
+ *   a translation of it (default: order of first appearance)
+ *
+ * @example
+ * protectPlaceholders("Hello {name}, you have {count, plural, one {# item} other {# items}}")
+ * → { text: "Hello {0}, you have {1, plural, one {# item} other {# items}}", names: ["name", "count"] }
+ */
+export function protectPlaceholders(message: string, names?: string[]): ProtectedMessage {
+  const parts = parseMessage(message);
+  if (!parts) {
+    return { text: message, names: [] };
+  }
+
+  names = names || collectNames(parts);
+  if (names.length === 0) {
+    return { text: message, names };
+  }
+
+  return {
+    text: printMessage(parts, name => String(names.indexOf(name))),
+    names
+  };
+}
+
+/**
+ * Restore named placeholders in a translation of a protected message
+ * Falls back to the source message if the translation dropped or invented placeholders
+ *
+ * @param translated - Translation of protectPlaceholders(source).text
+ * @param source - The original message with named placeholders
+ * @param onMismatch - Called when falling back to the source message
+ * @param logger - Where to warn about the mismatch (default: console)
+ */
+export function restorePlaceholders(translated: string, source: string, onMismatch?: () => void, logger: Logger = defaultLogger): string {
+  const { names } = protectPlaceholders(source);
+  if (names.length === 0) {
+    return translated;
+  }
+
+  const parts = parseMessage(translated);
+  const indexes = parts ? collectNames(parts) : [];
+  const valid = parts !== null
+    && indexes.length === names.length
+    && indexes.every(index => /^\d+$/.test(index) && parseInt(index, 10) < names.length);
+
+  if (!valid) {
+    logger.warn('LiveI18n: Translation placeholders do not match the source message, using source text:', {
+      source,
+      translated
+    });
+    onMismatch?.();
+    return source;
+  }
+
+  return printMessage(parts, index => names[parseInt(index, 10)]);
+}
+
+function mapTextParts(parts: MessagePart[], transform: (text: string) => string): MessagePart[] {
+  return parts.map(part => {
+    switch (part.type) {
+      case 'text':
+        return { ...part, raw: transform(part.raw) };
+      case 'plural':
+      case 'selectordinal':
+      case 'select':
+        return {
+          ...part,
+          options: part.options.map(option => ({ key: option.key, parts: mapTextParts(option.parts, transform) }))
+        };
+      default:
+        return part;
+    }
+  });
+}
+
+/**
+ * Rewrite the literal text of a message, leaving placeholders and plural/select syntax intact
+ * Text inside plural and select options is rewritten too. Text that isn't valid message
+ * syntax is rewritten as a whole
+ */
+export function mapMessageText(message: string, transform: (text: string) => string): string {
+  const parts = parseMessage(message);
+  if (!parts) {
+    return transform(message);
+  }
+  return printMessage(mapTextParts(parts, transform), name => name);
+}
+
+const pluralRulesCache = new Map<string, Intl.PluralRules>();
+
+/**
+ * Get plural rules for a locale, falling back to English for unknown locales
+ */
+function getPluralRules(locale: string | undefined, type: Intl.PluralRuleType): Intl.PluralRules {
+  const cacheKey = `${locale || ''}:${type}`;
+  let rules = pluralRulesCache.get(cacheKey);
+  if (!rules) {
+    try {
+      rules = new Intl.PluralRules(locale, { type });
+    } catch (error) {
+      rules = new Intl.PluralRules('en', { type });
+    }
+    pluralRulesCache.set(cacheKey, rules);
+  }
+  return rules;
+}
+
+function formatNumber(value: number, locale?: string): string {
+  try {
+    return new Intl.NumberFormat(locale).format(value);
+  } catch (error) {
+    return String(value);
+  }
+}
+
+function formatParts(parts: MessagePart[], values: MessageValues, locale: string | undefined, pluralValue?: number): string {
+  return parts.map(part => {
+    switch (part.type) {
+      case 'text':
+        return part.value;
+
+      case 'pound':
+        return pluralValue === undefined ? '#' : formatNumber(pluralValue, locale);
+
+      case 'argument': {
+        const value = values[part.name];
+        if (value === undefined || value === null) return part.raw;
+        if (part.format === 'number' && typeof value === 'number') return formatNumber(value, locale);
+        return String(value);
+      }
+
+      case 'select': {
+        const value = values[part.name];
+        if (value === undefined || value === null) return part.raw;
+        const option = part.options.find(o => o.key === String(value))
+          || part.options.find(o => o.key === 'other')!;
+        return formatParts(option.parts, values, locale, pluralValue);
+      }
+
+      default: {
+        const value = Number(values[part.name]);
+        if (values[part.name] === undefined || values[part.name] === null || isNaN(value)) return part.raw;
+
+        // Exact matches (=0, =1) win over plural categories
+        const exact = part.options.find(o => o.key === `=${value}`);
+        const category = getPluralRules(locale, part.type === 'selectordinal' ? 'ordinal' : 'cardinal')
+          .select(value - part.offset);
+        const option = exact
+          || part.options.find(o => o.key === category)
+          || part.options.find(o => o.key === 'other')!;
+        return formatParts(option.parts, values, locale, value - part.offset);
+      }
+    }
+  }).join('');
+}
+
+/**
+ * Substitute values into a message, resolving plural and select arguments
+ * Plural categories come from Intl.PluralRules for the given locale, so translations
+ * can use every category their language needs (one, few, many, other...)
+ * Placeholders without a value are left untouched
+ *
+ * @example
+ * formatMessage("Hola {name}!", { name: "Ana" }) → "Hola Ana!"
+ * formatMessage("{n, plural, one {# plik} few {# pliki} many {# plików} other {# pliku}}", { n: 5 }, "pl-PL") → "5 plików"
+ */
+export function formatMessage(message: string, values: MessageValues, locale?: string, logger: Logger = defaultLogger): string {
+  const parts = parseMessage(message);
+  if (!parts) {
+    logger.warn('LiveI18n: Invalid message syntax, values were not substituted:', message);
+    return message;
+  }
+  return formatParts(parts, values, locale);
+}
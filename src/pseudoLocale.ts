@@ -0,0 +1,78 @@
+import { mapMessageText } from './messageFormat';
+
+/**
+ * Reserved locales translated locally for layout QA
+ * en-XA: accented, bracketed and expanded text
+ * ar-XB: the same expansion, rendered right-to-left
+ */
+export type PseudoLocale = 'en-XA' | 'ar-XB';
+
+const PSEUDO_LOCALES: PseudoLocale[] = ['en-XA', 'ar-XB'];
+
+const ACCENTED: Record<string, string> = {
+  a: 'á', b: 'ƀ', c: 'ç', d: 'ð', e: 'é', f: 'ƒ', g: 'ĝ', h: 'ĥ', i: 'í', j: 'ĵ', k: 'ķ', l: 'ļ', m: 'ɱ',
+  n: 'ñ', o: 'ö', p: 'þ', q: 'ǫ', r: 'ŕ', s: 'š', t: 'ţ', u: 'û', v: 'ṽ', w: 'ŵ', x: 'ẋ', y: 'ý', z: 'ž',
+  A: 'Å', B: 'Ɓ', C: 'Ç', D: 'Ð', E: 'É', F: 'Ƒ', G: 'Ĝ', H: 'Ĥ', I: 'Î', J: 'Ĵ', K: 'Ķ', L: 'Ļ', M: 'Ṁ',
+  N: 'Ñ', O: 'Ö', P: 'Þ', Q: 'Ǫ', R: 'Ŕ', S: 'Š', T: 'Ţ', U: 'Û', V: 'Ṽ', W: 'Ŵ', X: 'Ẋ', Y: 'Ý', Z: 'Ž'
+};
+
+// Padding words, like Chrome's en-XA, so expanded text still wraps at word boundaries
+const PADDING_WORDS = ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten'];
+
+// Translations are typically up to 40% longer than English source text
+const EXPANSION = 0.4;
+
+// Right-to-left override and pop directional formatting
+const RLO = '\u202E';
+const PDF = '\u202C';
+
+// Rich-text element tags (<0>, </0>, <0/>) are kept as-is
+const ELEMENT_TAG = /(<\/?\d+\/?>)/;
+
+export function isPseudoLocale(locale: string | undefined): locale is PseudoLocale {
+  return PSEUDO_LOCALES.includes(locale as PseudoLocale);
+}
+
+function wrapRtl(text: string): string {
+  return text.replace(/\S+/g, word => `${RLO}${word}${PDF}`);
+}
+
+function transformText(text: string, rtl: boolean): string {
+  return text.split(ELEMENT_TAG).map((segment, i) => {
+    // Odd segments are the tags captured by split
+    if (i % 2 === 1) return segment;
+    const accented = segment.replace(/[a-zA-Z]/g, char => ACCENTED[char] || char);
+    return rtl ? wrapRtl(accented) : accented;
+  }).join('');
+}
+
+function padding(length: number): string {
+  const words: string[] = [];
+  let padded = 0;
+  while (padded < length) {
+    const word = PADDING_WORDS[words.length % PADDING_WORDS.length];
+    words.push(word);
+    padded += word.length + 1;
+  }
+  return words.join(' ');
+}
+
+/**
+ * Pseudo-translate a message for layout QA
+ * Letters are accented, the result is bracketed so truncation is visible, and padded
+ * about 40% longer. Placeholders, plural/select syntax and element tags are kept intact,
+ * so values and nested elements still render
+ *
+ * @example
+ * pseudoLocalize("Hello {name}!") → "[Ĥéļļö {name}! one two]"
+ * pseudoLocalize("Hello {name}!", 'ar-XB') → words wrapped in right-to-left overrides
+ */
+export function pseudoLocalize(text: string, locale: PseudoLocale = 'en-XA'): string {
+  if (!text.trim()) return text;
+
+  const rtl = locale === 'ar-XB';
+  const extra = Math.ceil(text.length * EXPANSION);
+  const transformed = mapMessageText(text, segment => transformText(segment, rtl));
+  const pad = padding(extra);
+  return `[${transformed} ${rtl ? wrapRtl(pad) : pad}]`;
+}
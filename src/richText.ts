@@ -0,0 +1,166 @@
+import React from 'react';
+import { logger as defaultLogger, type Logger } from './logger';
+
+/**
+ * Text content extracted from LiveText children
+ * Nested elements are replaced with numbered tags, e.g. "Read our <0>terms</0> today"
+ */
+export interface RichTextContent {
+  text: string;
+  /** Original elements indexed by their placeholder number */
+  elements: React.ReactElement[];
+}
+
+interface RichTextNode {
+  index: number | null; // null for the root node
+  selfClosing: boolean;
+  children: Array<string | RichTextNode>;
+}
+
+const TAG_PATTERN = /<(\d+)\/>|<(\d+)>|<\/(\d+)>/g;
+
+/**
+ * Check whether children can be represented as text with placeholders
+ * Render props and other non-node children are left untouched
+ */
+function isTranslatableNode(node: unknown): boolean {
+  if (node == null || typeof node === 'boolean') return true;
+  if (typeof node === 'string' || typeof node === 'number') return true;
+  if (Array.isArray(node)) return node.every(isTranslatableNode);
+  return React.isValidElement(node);
+}
+
+/**
+ * Extract translatable text from React.ReactNode
+ * Strings and numbers are kept as-is, nested elements become numbered tags
+ * (depth-first, in source order) so translators can move them within the sentence
+ */
+export function extractRichContent(children: React.ReactNode, logger: Logger = defaultLogger): RichTextContent {
+  const elements: React.ReactElement[] = [];
+
+  const walk = (node: React.ReactNode): string => {
+    if (node == null || typeof node === 'boolean') return '';
+    if (typeof node === 'string') return node;
+    if (typeof node === 'number') return node.toString();
+    if (Array.isArray(node)) return node.map(walk).join('');
+
+    if (React.isValidElement(node)) {
+      const element = node as React.ReactElement<{ children?: React.ReactNode }>;
+      const elementChildren = element.props.children;
+
+      // Fragments carry no props worth preserving, inline their content
+      if (element.type === React.Fragment) {
+        return walk(elementChildren);
+      }
+
+      const index = elements.length;
+      elements.push(element);
+
+      if (elementChildren == null || !isTranslatableNode(elementChildren)) {
+        return `<${index}/>`;
+      }
+      return `<${index}>${walk(elementChildren)}</${index}>`;
+    }
+
+    // Portals, iterables and other exotic nodes can't be translated
+    logger.warn('LiveText: Unsupported child detected. Only text and React elements will be translated.');
+    return '';
+  };
+
+  return { text: walk(children), elements };
+}
+
+/**
+ * Parse a tagged string into a tree
+ * Returns null when the tags are malformed or don't match the known elements
+ */
+function parseRichText(text: string, elementCount: number): RichTextNode | null {
+  const root: RichTextNode = { index: null, selfClosing: false, children: [] };
+  const stack: RichTextNode[] = [root];
+  const used = new Set<number>();
+  let lastIndex = 0;
+
+  const claim = (index: number): boolean => {
+    if (index >= elementCount || used.has(index)) return false;
+    used.add(index);
+    return true;
+  };
+
+  TAG_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TAG_PATTERN.exec(text)) !== null) {
+    const current = stack[stack.length - 1];
+    if (match.index > lastIndex) {
+      current.children.push(text.slice(lastIndex, match.index));
+    }
+    lastIndex = TAG_PATTERN.lastIndex;
+
+    if (match[1] !== undefined) {
+      // Self-closing tag
+      const index = parseInt(match[1], 10);
+      if (!claim(index)) return null;
+      current.children.push({ index, selfClosing: true, children: [] });
+    } else if (match[2] !== undefined) {
+      // Opening tag
+      const index = parseInt(match[2], 10);
+      if (!claim(index)) return null;
+      const node: RichTextNode = { index, selfClosing: false, children: [] };
+      current.children.push(node);
+      stack.push(node);
+    } else {
+      // Closing tag must match the innermost open tag
+      const index = parseInt(match[3], 10);
+      if (stack.length === 1 || current.index !== index) return null;
+      stack.pop();
+    }
+  }
+
+  if (stack.length !== 1) return null;
+  if (lastIndex < text.length) {
+    root.children.push(text.slice(lastIndex));
+  }
+
+  return root;
+}
+
+/**
+ * Rebuild React content from a tagged string
+ * Elements are cloned with their original props and handlers, in the order the tags appear
+ *
+ * @param text - Tagged text, usually the translation of RichTextContent.text
+ * @param elements - Elements collected by extractRichContent
+ * @param transformText - Optional transform applied to every text segment (e.g. loading patterns)
+ * @returns The rebuilt content, or null if the tags in text are malformed
+ */
+export function renderRichText(
+  text: string,
+  elements: React.ReactElement[],
+  transformText: (segment: string) => string = segment => segment
+): React.ReactNode | null {
+  if (elements.length === 0) {
+    return transformText(text);
+  }
+
+  const tree = parseRichText(text, elements.length);
+  if (!tree) return null;
+
+  const build = (node: RichTextNode): React.ReactNode[] =>
+    node.children.map(child => {
+      if (typeof child === 'string') {
+        return transformText(child);
+      }
+
+      const element = elements[child.index as number];
+      const key = element.key ?? `livei18n-${child.index}`;
+
+      // Self-closing tags keep the element's original children
+      if (child.selfClosing) {
+        return React.cloneElement(element, { key });
+      }
+
+      return React.cloneElement(element, { key }, ...build(child));
+    });
+
+  const nodes = build(tree);
+  return nodes.length === 1 ? nodes[0] : nodes;
+}
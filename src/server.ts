@@ -0,0 +1,69 @@
+import type { LiveI18n } from './LiveI18n';
+import type { DehydratedTranslations } from './types';
+
+export interface RenderWithTranslationsOptions {
+  /** Maximum number of render passes (default: 3) */
+  maxPasses?: number;
+}
+
+export interface RenderWithTranslationsResult<T> {
+  /** Output of the final render pass */
+  output: T;
+  /** Cache snapshot to pass to LiveI18nProvider's dehydratedState prop on the client */
+  dehydratedState: DehydratedTranslations;
+}
+
+/**
+ * Server-side render with translated text
+ * Renders once to collect the strings used by LiveText and useLiveText, resolves them
+ * through the instance (batched like on the client), then renders again from the cache.
+ * Extra passes pick up text that only appears once other text is translated.
+ *
+ * @param instance - A LiveI18n instance for this request, also passed to LiveI18nProvider's instance prop
+ * @param render - Renders the app, e.g. () => renderToString(<App />)
+ *
+ * @example
+ * ```tsx
+ * const i18n = new LiveI18n({ ...config, defaultLanguage: 'es-ES', cache: { persistent: false } });
+ * const { output, dehydratedState } = await renderWithTranslations(i18n, () =>
+ *   renderToString(
+ *     <LiveI18nProvider config={config} instance={i18n}>
+ *       <App />
+ *     </LiveI18nProvider>
+ *   )
+ * );
+ * ```
+ */
+export async function renderWithTranslations<T>(
+  instance: LiveI18n,
+  render: () => T | Promise<T>,
+  options: RenderWithTranslationsOptions = {}
+): Promise<RenderWithTranslationsResult<T>> {
+  const maxPasses = options.maxPasses ?? 3;
+
+  let output = await render();
+  for (let pass = 1; pass < maxPasses && instance.hasPendingTranslations(); pass++) {
+    await instance.waitForPendingTranslations();
+    output = await render();
+  }
+
+  // Snapshot right after the final pass so the client hydrates with exactly what was rendered
+  const dehydratedState = await instance.dehydrate();
+
+  return { output, dehydratedState };
+}
+
+/**
+ * Serialize dehydrated translations for an inline <script> tag
+ * Escapes characters that could close the script element or break JavaScript parsing
+ *
+ * @example
+ * `<script>window.__LIVEI18N_STATE__ = ${serializeDehydratedState(dehydratedState)}</script>`
+ */
+export function serializeDehydratedState(state: DehydratedTranslations): string {
+  return JSON.stringify(state)
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import { LiveI18n } from './LiveI18n';
+import { LiveI18nProvider } from './LiveText';
+import { MockTransport } from './transport';
+import { protectPlaceholders } from './messageFormat';
+import type { LiveI18nConfig, TranslateOptions, TranslationResult } from './types';
+
+/**
+ * Fixed translations by source text, or a function producing them
+ * Source text is the template as written, e.g. "Hello {name}!" or "Read our <0>terms</0>"
+ */
+export type MockTranslations = Record<string, string> | ((text: string, locale: string) => string);
+
+export interface MockLiveI18nOptions {
+  /** Translations to return (default: "[es-ES] Hello"). Strings missing from a map stay untranslated */
+  translations?: MockTranslations;
+  /** Language to translate into (default: 'es-ES') */
+  language?: string;
+  /** Simulated API latency in milliseconds (default: 0) */
+  latencyMs?: number;
+  /** Extra configuration, e.g. { suspense: true } */
+  config?: Partial<LiveI18nConfig>;
+}
+
+/**
+ * A translation the mock API was asked for
+ */
+export interface RequestedTranslation {
+  /** Source text as written, before placeholders were protected */
+  text: string;
+  locale: string;
+  tone: string;
+  context: string;
+}
+
+/**
+ * LiveI18n instance backed by an in-memory transport and cache
+ * Never touches the network or localStorage, and records every translation requested
+ */
+export class MockLiveI18n extends LiveI18n {
+  readonly config: LiveI18nConfig;
+  readonly mockTransport: MockTransport;
+  // The transport only sees protected text ("Hello {0}"), this maps it back to what was written
+  private sources: Map<string, string>;
+
+  constructor(options: MockLiveI18nOptions = {}) {
+    const translations = options.translations;
+    const sources = new Map<string, string>();
+
+    const transport = new MockTransport({
+      latencyMs: options.latencyMs,
+      translate: (protectedText, locale) => {
+        const source = sources.get(protectedText) ?? protectedText;
+        const translated = typeof translations === 'function'
+          ? translations(source, locale)
+          : translations
+            ? translations[source] ?? source
+            : `[${locale}] ${source}`;
+        // Number the translation's placeholders like the source's
+        return protectPlaceholders(translated, protectPlaceholders(source).names).text;
+      }
+    });
+
+    const config: LiveI18nConfig = {
+      apiKey: 'mock',
+      customerId: 'mock',
+      defaultLanguage: options.language || 'es-ES',
+      batching: { flushMs: 0 },
+      ...options.config,
+      cache: { persistent: false, ...options.config?.cache },
+      transport
+    };
+
+    super(config);
+    this.config = config;
+    this.mockTransport = transport;
+    this.sources = sources;
+  }
+
+  translateWithResult(text: string, options?: TranslateOptions, onRetry?: (attempt: number) => void): Promise<TranslationResult> {
+    if (text) {
+      this.sources.set(protectPlaceholders(text).text, text);
+    }
+    return super.translateWithResult(text, options, onRetry);
+  }
+
+  /**
+   * Translations requested from the mock API so far, in order
+   * Cache hits and requests joining an identical in-flight request aren't repeated
+   */
+  getRequests(): RequestedTranslation[] {
+    return this.mockTransport.calls.flatMap(call => call.requests.map(request => ({
+      text: this.sources.get(request.text) ?? request.text,
+      locale: request.locale,
+      tone: request.tone,
+      context: request.context
+    })));
+  }
+
+  /**
+   * Check whether a string was requested, optionally with a given tone, context or locale
+   */
+  wasRequested(text: string, match: Partial<Omit<RequestedTranslation, 'text'>> = {}): boolean {
+    return this.getRequests().some(request =>
+      request.text === text
+      && (match.tone === undefined || request.tone === match.tone)
+      && (match.context === undefined || request.context === match.context)
+      && (match.locale === undefined || request.locale === match.locale)
+    );
+  }
+
+  /**
+   * Forget recorded requests
+   */
+  resetRequests(): void {
+    this.mockTransport.reset();
+  }
+}
+
+// Instances of mounted MockLiveI18nProviders, counted per provider,
+// that waitForTranslations() waits on when no instance is given
+const mountedInstances = new Map<LiveI18n, number>();
+
+function mountInstance(instance: LiveI18n): () => void {
+  mountedInstances.set(instance, (mountedInstances.get(instance) || 0) + 1);
+  return () => {
+    const count = (mountedInstances.get(instance) || 1) - 1;
+    if (count > 0) {
+      mountedInstances.set(instance, count);
+    } else {
+      mountedInstances.delete(instance);
+    }
+  };
+}
+
+/**
+ * Create a LiveI18n instance for tests
+ *
+ * @example
+ * ```ts
+ * const i18n = createMockLiveI18n({ translations: { 'Hello {name}!': '¡Hola {name}!' } });
+ * await i18n.translate('Hello {name}!', { values: { name: 'Ana' } }); // → "¡Hola Ana!"
+ * ```
+ */
+export function createMockLiveI18n(options: MockLiveI18nOptions = {}): MockLiveI18n {
+  return new MockLiveI18n(options);
+}
+
+/**
+ * Resolve once every pending translation has settled and the resulting React updates ran
+ * Waits on the given instance, or on the instances of every mounted MockLiveI18nProvider
+ */
+export async function waitForTranslations(instance?: LiveI18n): Promise<void> {
+  const instances = instance ? [instance] : Array.from(mountedInstances.keys());
+  do {
+    await Promise.all(instances.map(i => i.waitForPendingTranslations()));
+    // Let effects that handle the results run, they may start more translations
+    await new Promise(resolve => setTimeout(resolve, 0));
+  } while (instances.some(i => i.hasPendingTranslations()));
+}
+
+export interface MockLiveI18nProviderProps extends MockLiveI18nOptions {
+  children: React.ReactNode;
+  /** Use an existing mock instance, e.g. to inspect its requests */
+  instance?: MockLiveI18n;
+}
+
+/**
+ * LiveI18nProvider for tests and stories, backed by a MockLiveI18n instance
+ *
+ * @example
+ * ```tsx
+ * render(
+ *   <MockLiveI18nProvider translations={{ 'Add to cart': 'Añadir al carrito' }}>
+ *     <ProductCard />
+ *   </MockLiveI18nProvider>
+ * );
+ * await waitForTranslations();
+ * ```
+ */
+export const MockLiveI18nProvider: React.FC<MockLiveI18nProviderProps> = ({ children, instance: providedInstance, ...options }) => {
+  const [instance] = useState(() => providedInstance || createMockLiveI18n(options));
+
+  // Unmounted providers (e.g. from earlier tests) aren't waited on
+  useEffect(() => mountInstance(instance), [instance]);
+
+  return (
+    <LiveI18nProvider config={instance.config} instance={instance}>
+      {children}
+    </LiveI18nProvider>
+  );
+};
+
+/**
+ * Create a wrapper for render() or renderHook() from Testing Library,
+ * along with the mock instance it provides
+ *
+ * @example
+ * ```tsx
+ * const { wrapper, i18n } = createWrapper({ language: 'fr-FR' });
+ * const { result } = renderHook(() => useLiveText('Save', { tone: 'casual' }), { wrapper });
+ * await waitForTranslations(i18n);
+ * expect(i18n.wasRequested('Save', { tone: 'casual' })).toBe(true);
+ * ```
+ */
+export function createWrapper(options: MockLiveI18nOptions = {}): {
+  wrapper: React.FC<{ children: React.ReactNode }>;
+  i18n: MockLiveI18n;
+} {
+  const i18n = createMockLiveI18n(options);
+  const wrapper: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+    <MockLiveI18nProvider instance={i18n}>{children}</MockLiveI18nProvider>
+  );
+  return { wrapper, i18n };
+}
@@ -0,0 +1,217 @@
+import type { TranslationTransport, TranslationRequest, CorrectionRequest, TranslationResponse, BatchTranslationResponse, SupportedLanguage, SupportedLanguagesResponse } from './types';
+
+export class TranslationError extends Error {
+  statusCode: number;
+
+  constructor(message: string, code: number) {
+    super(message);
+    this.statusCode = code;
+  }
+}
+
+export interface FetchTransportOptions {
+  apiKey: string;
+  customerId: string;
+  /** API endpoint (default: https://api.livei18n.com) */
+  endpoint?: string;
+}
+
+/**
+ * Default transport, talks to the LiveI18n API with fetch
+ */
+export class FetchTransport implements TranslationTransport {
+  private apiKey: string;
+  private customerId: string;
+  private endpoint: string;
+
+  constructor(options: FetchTransportOptions) {
+    this.apiKey = options.apiKey;
+    this.customerId = options.customerId;
+    this.endpoint = options.endpoint || 'https://api.livei18n.com';
+  }
+
+  private post(path: string, body: unknown): Promise<Response> {
+    return fetch(`${this.endpoint}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-API-Key': this.apiKey,
+        'X-Customer-ID': this.customerId,
+      },
+      body: JSON.stringify(body),
+    });
+  }
+
+  async translate(request: TranslationRequest): Promise<TranslationResponse> {
+    const response = await this.post('/api/v1/translate', {
+      ...request,
+      text: request.text.substring(0, 5000)
+    });
+
+    if (!response.ok) {
+      throw new TranslationError(`API error: ${response.status} ${response.statusText}`, response.status);
+    }
+
+    return await response.json();
+  }
+
+  async translateBatch(requests: TranslationRequest[]): Promise<BatchTranslationResponse> {
+    const response = await this.post('/api/v1/translate_batch', { requests });
+
+    if (!response.ok) {
+      throw new TranslationError(`Batch API error: ${response.status} ${response.statusText}`, response.status);
+    }
+
+    return await response.json();
+  }
+
+  async submitCorrection(correction: CorrectionRequest): Promise<void> {
+    const response = await this.post('/api/v1/feedback', correction);
+
+    if (!response.ok) {
+      throw new TranslationError(`Feedback API error: ${response.status} ${response.statusText}`, response.status);
+    }
+  }
+
+  async supportedLanguages(all?: boolean): Promise<SupportedLanguagesResponse> {
+    const url = new URL(`${this.endpoint}/api/v1/languages/supported`);
+    if (all) {
+      url.searchParams.set('all', 'true');
+    }
+
+    const response = await fetch(url.toString(), {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      throw new TranslationError(`Supported languages API error: ${response.status} ${response.statusText}`, response.status);
+    }
+
+    return await response.json();
+  }
+}
+
+export interface MockTransportOptions {
+  /** Produce a translation (default: "[es-ES] Hello") */
+  translate?: (text: string, locale: string) => string;
+  /** Delay before every response in milliseconds (default: 0) */
+  latencyMs?: number;
+  /** Fail every request with this HTTP status code */
+  status?: number;
+  /** Confidence reported for every translation (default: 1) */
+  confidence?: number;
+  /** Languages returned by supportedLanguages (default: a few common ones) */
+  languages?: SupportedLanguage[];
+}
+
+/**
+ * A call received by MockTransport
+ */
+export interface MockTransportCall {
+  method: 'translate' | 'translateBatch' | 'supportedLanguages' | 'submitCorrection';
+  requests: TranslationRequest[];
+  /** Set for submitCorrection calls */
+  correction?: CorrectionRequest;
+}
+
+const MOCK_LANGUAGES: SupportedLanguage[] = [
+  { name: 'English', locale: 'en-US', flag: '🇺🇸' },
+  { name: 'Spanish', locale: 'es-ES', flag: '🇪🇸' },
+  { name: 'French', locale: 'fr-FR', flag: '🇫🇷' },
+  { name: 'German', locale: 'de-DE', flag: '🇩🇪' },
+  { name: 'Japanese', locale: 'ja-JP', flag: '🇯🇵' }
+];
+
+/**
+ * In-memory transport for Storybook, offline demos and tests, never touches the network
+ * Translations are deterministic, placeholders ({0}) and element tags (<0>) pass through untouched
+ *
+ * @example
+ * ```tsx
+ * const transport = new MockTransport({ latencyMs: 200 });
+ * <LiveI18nProvider config={{ apiKey: 'mock', customerId: 'mock', transport }}>
+ * ```
+ */
+export class MockTransport implements TranslationTransport {
+  /** Every call received, in order */
+  readonly calls: MockTransportCall[] = [];
+  private options: MockTransportOptions;
+
+  constructor(options: MockTransportOptions = {}) {
+    this.options = { ...options };
+  }
+
+  /**
+   * Change the simulated latency
+   */
+  setLatency(latencyMs: number): void {
+    this.options.latencyMs = latencyMs;
+  }
+
+  /**
+   * Fail every following request with a status code, or pass undefined to succeed again
+   */
+  setStatus(status?: number): void {
+    this.options.status = status;
+  }
+
+  /**
+   * Forget recorded calls
+   */
+  reset(): void {
+    this.calls.length = 0;
+  }
+
+  private async respond(call: MockTransportCall, errorPrefix: string): Promise<void> {
+    this.calls.push(call);
+
+    if (this.options.latencyMs) {
+      await new Promise(resolve => setTimeout(resolve, this.options.latencyMs));
+    }
+
+    const status = this.options.status;
+    if (status !== undefined && (status < 200 || status >= 300)) {
+      throw new TranslationError(`${errorPrefix}: ${status} Mock error`, status);
+    }
+  }
+
+  private translateText(text: string, locale: string): string {
+    return this.options.translate ? this.options.translate(text, locale) : `[${locale}] ${text}`;
+  }
+
+  async translate(request: TranslationRequest): Promise<TranslationResponse> {
+    await this.respond({ method: 'translate', requests: [request] }, 'API error');
+    return {
+      translated: this.translateText(request.text, request.locale),
+      locale: request.locale,
+      cached: false,
+      confidence: this.options.confidence ?? 1
+    };
+  }
+
+  async translateBatch(requests: TranslationRequest[]): Promise<BatchTranslationResponse> {
+    await this.respond({ method: 'translateBatch', requests }, 'Batch API error');
+    return {
+      responses: requests.map(request => ({
+        cache_key: request.cache_key,
+        translated: this.translateText(request.text, request.locale),
+        cached: false,
+        confidence: this.options.confidence ?? 1
+      }))
+    };
+  }
+
+  async submitCorrection(correction: CorrectionRequest): Promise<void> {
+    await this.respond({ method: 'submitCorrection', requests: [], correction }, 'Feedback API error');
+  }
+
+  async supportedLanguages(all?: boolean): Promise<SupportedLanguagesResponse> {
+    await this.respond({ method: 'supportedLanguages', requests: [] }, 'Supported languages API error');
+    const languages = this.options.languages || MOCK_LANGUAGES;
+    const result = all ? languages : languages.slice(0, 20);
+    return { languages: result, total: result.length };
+  }
+}
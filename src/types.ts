@@ -1,7 +1,86 @@
+import type { MessageValues } from './messageFormat';
+import type { PseudoLocale } from './pseudoLocale';
+import type { FallbackLocales } from './localeFallback';
+import type { LanguagePersistence } from './languagePersistence';
+
 export interface LiveTextOptions {
   tone?: string;
   context?: string;
   language?: string;
+  /** Values for {placeholders}, substituted locally after translation */
+  values?: MessageValues;
+  /** Batch scheduling: 'high' is sent right away, 'low' waits for larger batches (default: 'normal') */
+  priority?: TranslationPriority;
+  /** Minimum API confidence (0 to 1) for showing the translation, overrides the global setting */
+  minConfidence?: number;
+  /** What to show below minConfidence, overrides the global setting */
+  lowConfidencePolicy?: LowConfidencePolicy;
+}
+
+export type TranslationPriority = 'high' | 'normal' | 'low';
+
+/**
+ * What to show for a translation below minConfidence
+ * 'source': the source text, 'fallbackLocale': the translation into the next locale of the fallback
+ * chain (or the source text if those are low confidence too), 'flag': the translation, flagged as low confidence
+ */
+export type LowConfidencePolicy = 'source' | 'fallbackLocale' | 'flag';
+
+/**
+ * A translation with the details behind it, see LiveI18n.translateWithResult()
+ */
+export interface TranslationResult {
+  /** Text to show, with values substituted */
+  text: string;
+  /** Locale of the translation, a fallback locale when fallbackFrom is set */
+  locale: string;
+  /** Locale asked for, when the translation is from a fallback locale instead */
+  fallbackFrom?: string;
+  /** API confidence score from 0 to 1, unknown for bundled, pseudo and corrected translations */
+  confidence?: number;
+  /** Below minConfidence, text is what the low confidence policy chose to show */
+  lowConfidence: boolean;
+  /** Text is the low confidence translation, shown with the 'flag' policy */
+  flagged: boolean;
+  /** Text is the source text, because translating failed or fell below minConfidence */
+  isFallback: boolean;
+  /** Why translating failed, after retries gave up */
+  error?: Error;
+}
+
+/**
+ * Status of a translation rendered with useLiveTextState()
+ * 'idle': nothing to translate, 'loading': waiting for the API, 'translated': showing a translation,
+ * 'fallback': showing the source text below minConfidence, 'error': showing the source text after translating failed
+ */
+export type LiveTextStatus = 'idle' | 'loading' | 'translated' | 'fallback' | 'error';
+
+/**
+ * Translation state returned by useLiveTextState()
+ */
+export interface LiveTextState {
+  /** Text to show, the source text until a translation arrives */
+  text: string;
+  status: LiveTextStatus;
+  isLoading: boolean;
+  /** Text is the source text, because translating failed or fell below minConfidence */
+  isFallback: boolean;
+  /** Why translating failed */
+  error?: Error;
+  /** API confidence score from 0 to 1, when known */
+  confidence?: number;
+  /** Locale of the translation, or the locale being translated into while loading */
+  locale: string;
+  /** Translate again, e.g. after an error. Failed translations aren't cached, so this asks the API again */
+  retry: () => void;
+}
+
+/**
+ * Options for LiveI18n.translate()
+ */
+export interface TranslateOptions extends LiveTextOptions {
+  /** Abort the translation, e.g. when the component that asked for it unmounts */
+  signal?: AbortSignal;
 }
 
 export interface LiveI18nConfig {
@@ -9,25 +88,197 @@ export interface LiveI18nConfig {
   customerId: string;
   endpoint?: string;
   defaultLanguage?: string; // Global default language
+  /**
+   * Locales the product ships, detected languages are negotiated against these instead
+   * of the API's supported languages, e.g. ['en-US', 'de-DE', 'fr-FR'] (default: all supported)
+   */
+  allowedLocales?: string[];
+  /** Accept-Language header of the request, negotiated instead of navigator.languages when rendering on the server */
+  acceptLanguage?: string;
+  /**
+   * Save the language chosen with updateDefaultLanguage() and restore it on load, overriding
+   * defaultLanguage: 'localStorage', 'cookie', 'query', 'path' or a custom { get, set } store (default: not saved)
+   */
+  languagePersistence?: LanguagePersistence;
   debug?: boolean; // Show debug console logs
   /** Enable request batching for better performance (default: true) */
   batch_requests?: boolean;
+  batching?: {
+    /** Maximum translations per batch request (default: 10) */
+    maxItems?: number;
+    /** How long normal priority translations wait for more to join the batch (default: 50) */
+    flushMs?: number;
+    /** Maximum request body size in bytes, larger batches are split (default: 100000) */
+    maxPayloadBytes?: number;
+    /** Maximum batch requests in flight, further batches wait for a free slot (default: 6) */
+    maxConcurrentBatches?: number;
+  };
   cache?: {
+    /** Custom storage backend, replaces the built-in caches when set */
+    adapter?: TranslationCacheAdapter;
     /** Use persistent localStorage cache */
     persistent?: boolean;
+    /** Persistent storage backend: 'localStorage' or 'indexedDB' (default: 'localStorage') */
+    storage?: 'localStorage' | 'indexedDB';
     /** Number of cache entries (default: 500) */
     entrySize?: number;
     /** Cache TTL in hours (default: 1) */
     ttlHours?: number;
+    /** Hours past the TTL an entry is still served while it's refreshed in the background (default: 0) */
+    staleWhileRevalidate?: number;
     /** Preload cache on initialization (default: true) */
     preload?: boolean;
   };
+  /**
+   * Minimum API confidence (0 to 1) for showing a translation, see lowConfidence for what's
+   * shown instead. Also the threshold for lowConfidence events, which default to 0.4 without it (default: none)
+   */
+  minConfidence?: number;
+  /**
+   * Locales to try when a translation fails or, with the 'fallbackLocale' low confidence policy,
+   * is below minConfidence, e.g. { 'pt-BR': 'pt-PT', default: 'en' } (default: none, the source text is shown)
+   */
+  fallbackLocales?: FallbackLocales;
+  lowConfidence?: {
+    /** What to show below minConfidence (default: 'fallbackLocale' when fallbackLocales is set, otherwise 'source') */
+    policy?: LowConfidencePolicy;
+    /** Locale to try last with the 'fallbackLocale' policy, after fallbackLocales */
+    fallbackLocale?: string;
+    /** Cache TTL in hours for low confidence translations, so they're refreshed sooner (default: 0.25) */
+    ttlHours?: number;
+  };
+  /**
+   * Replace every translation with a locally generated pseudo-translation for layout QA,
+   * without API calls. true or 'en-XA' for accented and expanded text, 'ar-XB' for the
+   * right-to-left variant (default: false). The reserved locales also work as a language
+   */
+  pseudoLocale?: boolean | PseudoLocale;
+  /** Silence the SDK's built-in console warnings and logs, e.g. when handling events instead (default: false) */
+  silent?: boolean;
+  /** Network layer for API calls (default: FetchTransport for endpoint) */
+  transport?: TranslationTransport;
+  /** Suspend LiveText and useLiveText on cache misses instead of rendering source text (default: false) */
+  suspense?: boolean;
   loading?: {
     /** Loading indicator pattern: 'dots', 'blocks', or 'none' (default: 'none') */
     pattern?: 'dots' | 'blocks' | 'none';
   };
 }
 
+export type MaybePromise<T> = T | Promise<T>;
+
+export interface CacheStats {
+  /** Number of cached entries (in memory, for hybrid caches) */
+  size: number;
+  /** Maximum number of entries, if the cache is bounded */
+  maxSize?: number;
+  /** Entries dropped to make room for new ones */
+  evictions?: number;
+  /** Entries removed after expiring */
+  expired?: number;
+  /** Entries in the persistent layer */
+  persistentSize?: number;
+  /** Approximate bytes used by the persistent layer */
+  persistentBytes?: number;
+  /** Entries per locale, from the persistent layer when there is one */
+  locales?: Record<string, number>;
+}
+
+/**
+ * Cache statistics from LiveI18n.getCacheStats(), counters start at creation or the last resetStats()
+ */
+export interface LiveI18nCacheStats extends CacheStats {
+  maxSize: number;
+  /** Lookups answered by each layer, including stale entries */
+  hits: Record<CacheLayer, number>;
+  /**
+   * Lookups each layer couldn't answer, checked in order memory, persistent, bundle.
+   * misses.bundle are the lookups that needed an API request
+   */
+  misses: Record<CacheLayer, number>;
+  /** Share of lookups answered from cache, 0 to 1 */
+  hitRate: number;
+  api: {
+    /** API calls made, a batch counts once */
+    requests: number;
+    /** Failed API calls, including retried attempts */
+    failures: number;
+    averageLatencyMs: number;
+  };
+}
+
+/**
+ * Metadata stored alongside a cached translation
+ */
+export interface CacheEntryMeta {
+  /** Target locale of the translation */
+  locale?: string;
+  /** API confidence score of the translation */
+  confidence?: number;
+  /** TTL in milliseconds for this entry, if shorter than the cache's */
+  ttl?: number;
+}
+
+/**
+ * A cached translation with its freshness
+ */
+export interface CacheEntry<V = string> {
+  value: V;
+  /** Past its TTL but inside the stale-while-revalidate window */
+  stale: boolean;
+  locale?: string;
+  confidence?: number;
+  /** Where the entry was found, for cacheHit events */
+  layer?: CacheLayer;
+}
+
+export type CacheLayer = 'memory' | 'persistent' | 'bundle';
+
+/**
+ * Where a translation came from: a cache layer, the API, local pseudo-localization,
+ * or the source text after a failure
+ */
+export type TranslationOrigin = CacheLayer | 'api' | 'pseudo' | 'fallback';
+
+/**
+ * How a translation was resolved, as shown by LiveI18nDevtools
+ */
+export interface TranslationDetails {
+  /** Source text as written, e.g. "Hello {name}!" */
+  text: string;
+  /** Translated template, before values are substituted */
+  translated?: string;
+  locale: string;
+  tone: string;
+  context: string;
+  cacheKey: string;
+  origin?: TranslationOrigin;
+  /** Served past its TTL while being refreshed */
+  stale?: boolean;
+  /** API confidence score from 0 to 1 */
+  confidence?: number;
+}
+
+/**
+ * Storage backend for cached translations, keyed by cache key
+ * Methods may return synchronously or with a promise. Synchronous reads let
+ * LiveText render cached translations on the first render (and during SSR hydration)
+ */
+export interface TranslationCacheAdapter {
+  get(key: string): MaybePromise<string | undefined>;
+  /** Read an entry including stale ones, enables stale-while-revalidate */
+  getEntry?(key: string): MaybePromise<CacheEntry | undefined>;
+  set(key: string, value: string, meta?: CacheEntryMeta): MaybePromise<void>;
+  delete(key: string): MaybePromise<void>;
+  clear(): MaybePromise<void>;
+  keys(): MaybePromise<string[]>;
+  stats(): MaybePromise<CacheStats>;
+  /** Reset counters such as evictions and expired */
+  resetStats?(): void;
+  /** Entry TTL in milliseconds, also used to cache the detected locale (default: 1 hour) */
+  getTtl?(): number;
+}
+
 export interface TranslationResponse {
   translated: string;
   locale: string;
@@ -35,15 +286,32 @@ export interface TranslationResponse {
   confidence: number;
 }
 
+/**
+ * A translation resolved from the cache, the API or locally, before values are applied
+ */
+export interface ResolvedTranslation {
+  value: string;
+  confidence?: number;
+  /** Set when translating failed, value is then the source text */
+  error?: Error;
+}
+
 export interface QueuedTranslation {
+  /** Text sent to the API (placeholders protected) */
   text: string;
+  /** Original text the cache key was generated from */
+  sourceText: string;
+  locale: string;
+  tone: string;
+  context: string;
   options?: LiveTextOptions;
   cacheKey: string;
-  resolve: (result: string) => void;
+  priority: TranslationPriority;
+  resolve: (result: ResolvedTranslation) => void;
   reject: (error: Error) => void;
 }
 
-export interface BatchTranslationRequest {
+export interface TranslationRequest {
   text: string;
   locale: string;
   tone: string;
@@ -51,6 +319,41 @@ export interface BatchTranslationRequest {
   cache_key: string;
 }
 
+export type BatchTranslationRequest = TranslationRequest;
+
+/**
+ * A correction sent to the feedback endpoint
+ */
+export interface CorrectionRequest {
+  cache_key: string;
+  locale: string;
+  /** Source text, when known */
+  text?: string;
+  /** Translation being corrected, when cached */
+  translated?: string;
+  suggested: string;
+  reason?: string;
+}
+
+/**
+ * A bad translation reported with LiveI18n.submitCorrection()
+ * Identify it by cacheKey, or by text and the options it was translated with
+ */
+export interface TranslationCorrection {
+  cacheKey?: string;
+  /** Source text as written, e.g. "Hello {name}!" */
+  text?: string;
+  /** Tone, context and language the text was translated with */
+  options?: LiveTextOptions;
+  /** Locale of the translation (default: options.language, the cached entry's or the current locale) */
+  locale?: string;
+  /** Corrected translation, using the same placeholders as the source text */
+  suggested: string;
+  reason?: string;
+  /** Use the suggestion right away and keep it in the cache (default: true) */
+  applyLocally?: boolean;
+}
+
 export interface BatchTranslationResponse {
   responses: Array<{
     cache_key: string;
@@ -60,6 +363,18 @@ export interface BatchTranslationResponse {
   }>;
 }
 
+/**
+ * Network layer used for every API call, see FetchTransport and MockTransport
+ * Failed requests reject with a TranslationError carrying the HTTP status code
+ */
+export interface TranslationTransport {
+  translate(request: TranslationRequest): Promise<TranslationResponse>;
+  translateBatch(requests: TranslationRequest[]): Promise<BatchTranslationResponse>;
+  supportedLanguages(all?: boolean): Promise<SupportedLanguagesResponse>;
+  /** Send a translation correction, required for LiveI18n.submitCorrection() */
+  submitCorrection?(correction: CorrectionRequest): Promise<void>;
+}
+
 export interface SupportedLanguage {
   name: string;
   locale: string;
@@ -70,3 +385,71 @@ export interface SupportedLanguagesResponse {
   languages: SupportedLanguage[];
   total: number;
 }
+
+/**
+ * Serialized translation cache, produced by LiveI18n.dehydrate() on the server
+ */
+export interface DehydratedTranslations {
+  /** Default language the server rendered with */
+  defaultLanguage?: string;
+  /** Language the server negotiated from the request's Accept-Language header */
+  negotiatedLanguage?: string;
+  /** Cached translations keyed by cache key, plain strings come from older versions */
+  entries: Record<string, DehydratedEntry | string>;
+}
+
+/**
+ * A cached translation serialized by dehydrate(), with what minConfidence needs to judge it
+ */
+export interface DehydratedEntry {
+  value: string;
+  locale?: string;
+  /** API confidence score, unknown for entries cached without one */
+  confidence?: number;
+}
+
+/**
+ * Pre-translated strings for one locale, written by `livei18n extract`
+ */
+export interface TranslationBundle {
+  locale: string;
+  /** Translations keyed by cache key */
+  entries: Record<string, string>;
+}
+
+/**
+ * A bundle, or a loader for one such as () => import('./translations/es-ES.json')
+ */
+export type TranslationBundleSource =
+  | TranslationBundle
+  | (() => Promise<TranslationBundle | { default: TranslationBundle }>);
+
+/**
+ * Translation lifecycle events, see LiveI18n.on()
+ */
+export interface LiveI18nEventMap {
+  /** A translation was found locally. layer is unknown for custom cache adapters */
+  cacheHit: { cacheKey: string; locale: string; layer?: CacheLayer; stale: boolean };
+  /** No cached or bundled translation, one will be requested */
+  cacheMiss: { cacheKey: string; locale: string };
+  /** An API request is about to be sent */
+  requestStart: { type: 'translate' | 'translateBatch'; count: number };
+  /** An API request finished, successfully or not */
+  requestEnd: { type: 'translate' | 'translateBatch'; count: number; durationMs: number; ok: boolean; statusCode?: number };
+  /** The batch queue was flushed */
+  batchFlush: { size: number; batches: number };
+  /** A failed request will be retried */
+  retry: { type: 'translate' | 'translateBatch'; attempt: number; delayMs: number; error: unknown };
+  /** The API returned a translation with confidence below minConfidence (default: 0.4) */
+  lowConfidence: { cacheKey: string; locale: string; confidence: number; text: string; translated: string };
+  /** The source text is shown instead of a translation */
+  fallback: { cacheKey: string; locale: string; text: string; reason: 'error' | 'placeholders' };
+  /** A translation into a fallback locale is shown instead of one into the locale asked for */
+  localeFallback: { text: string; from: string; locale: string; reason: 'error' | 'lowConfidence' };
+  /** The default language changed */
+  languageChange: { language?: string; previous?: string };
+}
+
+export type LiveI18nEvent = keyof LiveI18nEventMap;
+
+export type LiveI18nEventHandler<E extends LiveI18nEvent> = (payload: LiveI18nEventMap[E]) => void;
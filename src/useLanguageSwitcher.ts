@@ -0,0 +1,168 @@
+import { useState, useEffect, useContext, useRef, useCallback, useMemo } from 'react';
+import { LiveI18nContext } from './LiveText';
+import type { SupportedLanguage } from './types';
+
+/**
+ * A language listed by useLanguageSwitcher()
+ */
+export interface LanguageOption extends SupportedLanguage {
+  /** Name of the language in that language, e.g. 'Deutsch' for de-DE */
+  nativeName: string;
+  /** It's the language translations currently use */
+  isCurrent: boolean;
+}
+
+export interface UseLanguageSwitcherOptions {
+  /** List every supported language instead of the top 20 (default: false) */
+  all?: boolean;
+  /** Languages to list, in order (default: allowedLocales when configured, otherwise the supported languages) */
+  locales?: string[];
+}
+
+export interface LanguageSwitcherState {
+  /** Languages matching the search query */
+  languages: LanguageOption[];
+  /** Language translations currently use: the default language, or the negotiated one while auto-detecting */
+  currentLanguage?: string;
+  /** Listed language matching currentLanguage, also when the search query filters it out */
+  currentOption?: LanguageOption;
+  /** The supported languages list is loading */
+  isLoading: boolean;
+  /** Why the supported languages couldn't be loaded, languages then only lists configured locales */
+  error?: Error;
+  query: string;
+  /** Filter languages by English name, native name or locale, ignoring case and accents */
+  setQuery: (query: string) => void;
+  /** Switch to a language, or back to auto-detection with undefined */
+  selectLanguage: (locale?: string) => void;
+  /** Prefetch the strings used so far into a language, once per language */
+  prefetchLanguage: (locale: string) => void;
+}
+
+// Intl.DisplayNames isn't part of the ES2018 lib this package is typed against
+type DisplayNamesConstructor = new (locales: string[], options: { type: 'language' }) => { of(code: string): string | undefined };
+
+function getDisplayName(locale: string, inLocale: string): string | undefined {
+  const DisplayNames: DisplayNamesConstructor | undefined = typeof Intl !== 'undefined'
+    ? (Intl as unknown as { DisplayNames?: DisplayNamesConstructor }).DisplayNames
+    : undefined;
+  if (!DisplayNames) return undefined;
+
+  try {
+    return new DisplayNames([inLocale], { type: 'language' }).of(locale);
+  } catch (error) {
+    // Tags Intl doesn't accept keep the API's name
+    return undefined;
+  }
+}
+
+function normalizeForSearch(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+function isSameLocale(a: string | undefined, b: string): boolean {
+  return a?.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Headless language switcher: the languages to offer with their native names, search,
+ * and actions to switch and prefetch. Render them however you like, or use LanguageSwitcher
+ * Must be used within LiveI18nProvider
+ *
+ * @example
+ * ```tsx
+ * const { languages, selectLanguage, prefetchLanguage } = useLanguageSwitcher();
+ *
+ * return languages.map(language => (
+ *   <button
+ *     key={language.locale}
+ *     aria-pressed={language.isCurrent}
+ *     onClick={() => selectLanguage(language.locale)}
+ *     onMouseEnter={() => prefetchLanguage(language.locale)}
+ *   >
+ *     {language.flag} {language.nativeName}
+ *   </button>
+ * ));
+ * ```
+ */
+export function useLanguageSwitcher(options: UseLanguageSwitcherOptions = {}): LanguageSwitcherState {
+  const context = useContext(LiveI18nContext);
+  if (!context.instance) {
+    throw new Error('useLanguageSwitcher must be used within LiveI18nProvider');
+  }
+  const instance = context.instance;
+
+  const locales = options.locales || instance.getAllowedLocales();
+  // Configured locales are looked up in the full list, the top 20 may not include them
+  const all = !!options.all || !!locales;
+
+  const [supported, setSupported] = useState<SupportedLanguage[] | undefined>(undefined);
+  const [error, setError] = useState<Error | undefined>(undefined);
+  const [query, setQuery] = useState('');
+  const prefetched = useRef(new Set<string>());
+
+  useEffect(() => {
+    let active = true;
+    setError(undefined);
+
+    instance.getSupportedLanguages(all)
+      .then(response => {
+        if (active) setSupported(response.languages);
+      })
+      .catch(error => {
+        if (!active) return;
+        instance.getLogger().error('useLanguageSwitcher: Failed to load supported languages:', error);
+        setError(error instanceof Error ? error : new Error(String(error)));
+        setSupported([]);
+      });
+
+    return () => { active = false; };
+  }, [instance, all]);
+
+  const currentLanguage = context.defaultLanguage || context.negotiatedLanguage;
+  const localesKey = locales ? locales.join(',') : '';
+
+  const languages = useMemo(() => {
+    if (!supported) return [];
+
+    const listed: SupportedLanguage[] = locales
+      ? locales.map(locale => supported.find(language => isSameLocale(language.locale, locale))
+        || { locale, name: getDisplayName(locale, 'en') || locale, flag: '' })
+      : supported;
+
+    return listed.map((language): LanguageOption => ({
+      ...language,
+      nativeName: getDisplayName(language.locale, language.locale) || language.name,
+      isCurrent: isSameLocale(currentLanguage, language.locale)
+    }));
+  }, [supported, localesKey, currentLanguage]);
+
+  const filtered = useMemo(() => {
+    const search = normalizeForSearch(query.trim());
+    if (!search) return languages;
+    return languages.filter(language =>
+      [language.name, language.nativeName, language.locale].some(value => normalizeForSearch(value).includes(search))
+    );
+  }, [languages, query]);
+
+  const updateDefaultLanguage = context.updateDefaultLanguage;
+  const selectLanguage = useCallback((locale?: string) => updateDefaultLanguage(locale), [updateDefaultLanguage]);
+
+  const prefetchLanguage = useCallback((locale: string) => {
+    if (prefetched.current.has(locale) || isSameLocale(instance.getCurrentLocale(), locale)) return;
+    prefetched.current.add(locale);
+    instance.prefetchLanguage(locale);
+  }, [instance]);
+
+  return {
+    languages: filtered,
+    currentLanguage,
+    currentOption: languages.find(language => language.isCurrent),
+    isLoading: supported === undefined,
+    error,
+    query,
+    setQuery,
+    selectLanguage,
+    prefetchLanguage
+  };
+}
@@ -1,13 +1,14 @@
-import React, { useState, useEffect, useContext } from 'react';
-import { useLiveI18n, LiveI18nContext } from './LiveText';
+import { useContext } from 'react';
+import { useTranslationResult, LiveI18nContext } from './LiveText';
 import type { LiveTextOptions } from './types';
 import { generateLoadingText } from './loadingIndicator';
+import { formatMessage } from './messageFormat';
 
 /**
  * Hook for programmatic text translation that returns a string value
  * 
  * @param text - The text to translate
- * @param options - Translation options (context, tone, language)
+ * @param options - Translation options (context, tone, language, values)
  * @returns The translated text (starts with original, updates when translation completes)
  * 
  * @example
@@ -20,51 +21,36 @@ import { generateLoadingText } from './loadingIndicator';
  * const spanishText = useLiveText("Good morning", { 
  *   language: "es-ES" 
  * });
+ * const welcome = useLiveText("Welcome back, {name}!", { 
+ *   values: { name: user.firstName } 
+ * });
  * ```
  */
 export function useLiveText(text: string, options?: LiveTextOptions): string {
-  const [translatedText, setTranslatedText] = useState(text);
-  const [isLoading, setIsLoading] = useState(false);
-  const { translate, defaultLanguage } = useLiveI18n();
   const context = useContext(LiveI18nContext);
+  if (!context.instance) {
+    throw new Error('useLiveText must be used within LiveI18nProvider');
+  }
+  const instance = context.instance;
 
-  useEffect(() => {
-    // Don't translate empty strings
-    if (!text.trim()) {
-      setTranslatedText(text);
-      setIsLoading(false);
-      return;
-    }
-
-    // Get loading pattern from config
-    const loadingPattern = context?.instance?.getLoadingPattern() || 'none';
+  // Values are substituted locally, so the template is what gets translated and cached
+  const sourceText = options?.values ? formatMessage(text, options.values, undefined, instance.getLogger()) : text;
 
-    // Show loading indicator
-    setIsLoading(true);
-    setTranslatedText(generateLoadingText(text, loadingPattern));
+  // In suspense mode a cache miss suspends rendering until the translation arrives
+  const suspendedTranslation = instance.isSuspenseEnabled() && text.trim()
+    ? instance.readTranslation(text, options)
+    : undefined;
 
-    // Perform translation
-    translate(text, options)
-      .then((result) => {
-        setTranslatedText(result);
-      })
-      .catch((error) => {
-        console.error('useLiveText translation failed:', error);
-        // Fallback to original text on error
-        setTranslatedText(text);
-      })
-      .finally(() => {
-        setIsLoading(false);
-      });
-  }, [
-    text,
-    options?.context,
-    options?.tone, 
-    options?.language,
-    defaultLanguage, // Re-translate when default language changes
-    translate,
-    context
-  ]);
+  // Cached (or server-hydrated) translations are returned from the first render,
+  // failed ones fall back to the source text
+  const { result, isLoading } = useTranslationResult(instance, text, options || {}, {
+    sourceText,
+    label: 'useLiveText',
+    suspended: suspendedTranslation
+  });
 
-  return translatedText;
-}
\ No newline at end of file
+  if (suspendedTranslation !== undefined) return suspendedTranslation;
+  return isLoading
+    ? generateLoadingText(sourceText, instance.getLoadingPattern())
+    : result?.text ?? sourceText;
+}
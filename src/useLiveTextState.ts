@@ -0,0 +1,67 @@
+import { useState, useContext, useCallback } from 'react';
+import { useTranslationResult, LiveI18nContext } from './LiveText';
+import type { LiveTextOptions, LiveTextState, LiveTextStatus, TranslationResult } from './types';
+import { formatMessage } from './messageFormat';
+
+function getStatus(result: TranslationResult | undefined, isLoading: boolean): LiveTextStatus {
+  if (isLoading) return 'loading';
+  if (!result) return 'idle';
+  if (result.error) return 'error';
+  return result.isFallback ? 'fallback' : 'translated';
+}
+
+/**
+ * Hook for programmatic text translation that returns the translation with its state,
+ * for rendering skeletons, error badges or retry buttons
+ * Unlike useLiveText it never suspends and shows the source text while loading
+ *
+ * @param text - The text to translate
+ * @param options - Translation options (context, tone, language, values)
+ * @returns The text to show, its status, confidence and locale, and a retry function
+ *
+ * @example
+ * ```tsx
+ * const { text, isLoading, status, retry } = useLiveTextState("Add to cart");
+ *
+ * if (isLoading) return <Skeleton width={text.length} />;
+ * return (
+ *   <>
+ *     {text}
+ *     {status === 'error' && <button onClick={retry}>Retry</button>}
+ *   </>
+ * );
+ * ```
+ */
+export function useLiveTextState(text: string, options?: LiveTextOptions): LiveTextState {
+  const context = useContext(LiveI18nContext);
+  if (!context.instance) {
+    throw new Error('useLiveTextState must be used within LiveI18nProvider');
+  }
+  const instance = context.instance;
+
+  // Values are substituted locally, so the template is what gets translated and cached
+  const sourceText = options?.values ? formatMessage(text, options.values, undefined, instance.getLogger()) : text;
+
+  // Retrying bumps the attempt, which translates again
+  const [attempt, setAttempt] = useState(0);
+
+  // Cached (or server-hydrated) translations are returned from the first render
+  const { result, isLoading } = useTranslationResult(instance, text, options || {}, {
+    sourceText,
+    label: 'useLiveTextState',
+    refresh: attempt
+  });
+
+  const retry = useCallback(() => setAttempt(n => n + 1), []);
+
+  return {
+    text: result?.text ?? sourceText,
+    status: getStatus(result, isLoading),
+    isLoading,
+    isFallback: result?.isFallback ?? false,
+    error: result?.error,
+    confidence: result?.confidence,
+    locale: result?.locale ?? instance.getCurrentLocale(options?.language),
+    retry
+  };
+}